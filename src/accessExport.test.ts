@@ -0,0 +1,80 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { EXPORT_COLUMNS, renderAccessExport, toExportRow } from './accessExport.js';
+import type { AccessExportRow } from './accessExport.js';
+import type { PlexShareDetails, PlexUserAccess } from './types.js';
+
+const SHARE: PlexShareDetails = {
+  sharedServerId: 11,
+  allLibraries: false,
+  allowSync: true,
+  allowCameraUpload: false,
+  allowChannels: false,
+  allowTuners: null,
+  allowSubtitleAdmin: null,
+  filterAll: null,
+  filterMovies: 'contentRating=G',
+  filterMusic: null,
+  filterPhotos: null,
+  filterTelevision: null,
+  invitedAt: '2026-01-01T00:00:00.000Z',
+  acceptedAt: null,
+  sections: [
+    { id: 1, key: '1', title: 'Movies', type: 'movie', shared: true },
+    { id: 2, key: '2', title: 'Photos', type: 'photo', shared: false },
+    { id: 3, key: '3', title: 'TV Shows', type: 'show', shared: true },
+  ],
+};
+
+function row(overrides: Partial<PlexUserAccess>): AccessExportRow {
+  return toExportRow({
+    id: 2001,
+    uuid: null,
+    username: 'alice',
+    title: 'Alice',
+    email: 'alice@example.com',
+    restricted: false,
+    home: false,
+    guest: false,
+    canInvite: null,
+    serverIdentifier: 'server-a',
+    serverName: 'Basement',
+    accountLabel: 'primary',
+    share: null,
+    ...overrides,
+  });
+}
+
+test('flattens share settings and lists only shared libraries', () => {
+  const exported = row({ share: SHARE });
+
+  assert.deepEqual(exported.libraries, ['Movies', 'TV Shows']);
+  assert.equal(exported.all_libraries, false);
+  assert.equal(exported.filter_movies, 'contentRating=G');
+  assert.equal(row({}).all_libraries, null);
+  assert.deepEqual(row({}).libraries, []);
+});
+
+test('escapes formula triggers, quotes and separators in CSV', () => {
+  const csv = renderAccessExport(
+    [
+      row({ username: '=HYPERLINK("http://evil")', title: '+1', email: '-2@x.com' }),
+      row({ username: '@alice', title: 'Smith, Alice', share: SHARE }),
+    ],
+    'csv'
+  );
+  const [header, first, second] = csv.split('\r\n');
+
+  assert.equal(header, EXPORT_COLUMNS.join(','));
+  assert.match(first ?? '', /,"'=HYPERLINK\(""http:\/\/evil""\)",'\+1,'-2@x\.com,/);
+  assert.match(second ?? '', /,'@alice,"Smith, Alice",/);
+  assert.match(second ?? '', /,Movies; TV Shows,/);
+});
+
+test('renders JSON Lines and escapes Markdown cells', () => {
+  const rows = [row({ title: 'A | B\nC' })];
+
+  assert.deepEqual(JSON.parse(renderAccessExport(rows, 'jsonl')), rows[0]);
+  const [, , line] = renderAccessExport(rows, 'markdown').split('\n');
+  assert.match(line ?? '', /\| A \\\| B C \|/);
+});
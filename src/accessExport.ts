@@ -0,0 +1,135 @@
+import type { PlexUserAccess } from './types.js';
+
+export type ExportFormat = 'csv' | 'jsonl' | 'markdown';
+
+export const EXPORT_FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  csv: 'csv',
+  jsonl: 'jsonl',
+  markdown: 'md',
+};
+
+export interface AccessExportRow {
+  account_label: string;
+  server_name: string;
+  server_identifier: string;
+  user_id: number | null;
+  uuid: string | null;
+  username: string | null;
+  title: string | null;
+  email: string | null;
+  restricted: boolean | null;
+  home: boolean | null;
+  guest: boolean | null;
+  can_invite: boolean | null;
+  all_libraries: boolean | null;
+  libraries: string[];
+  allow_sync: boolean | null;
+  allow_camera_upload: boolean | null;
+  allow_channels: boolean | null;
+  allow_tuners: boolean | null;
+  allow_subtitle_admin: boolean | null;
+  filter_all: string | null;
+  filter_movies: string | null;
+  filter_television: string | null;
+  filter_music: string | null;
+  filter_photos: string | null;
+  invited_at: string | null;
+  accepted_at: string | null;
+}
+
+export const EXPORT_COLUMNS: Array<keyof AccessExportRow> = [
+  'account_label',
+  'server_name',
+  'server_identifier',
+  'user_id',
+  'uuid',
+  'username',
+  'title',
+  'email',
+  'restricted',
+  'home',
+  'guest',
+  'can_invite',
+  'all_libraries',
+  'libraries',
+  'allow_sync',
+  'allow_camera_upload',
+  'allow_channels',
+  'allow_tuners',
+  'allow_subtitle_admin',
+  'filter_all',
+  'filter_movies',
+  'filter_television',
+  'filter_music',
+  'filter_photos',
+  'invited_at',
+  'accepted_at',
+];
+
+export function toExportRow(user: PlexUserAccess): AccessExportRow {
+  const share = user.share;
+  return {
+    account_label: user.accountLabel,
+    server_name: user.serverName,
+    server_identifier: user.serverIdentifier,
+    user_id: user.id,
+    uuid: user.uuid,
+    username: user.username,
+    title: user.title,
+    email: user.email,
+    restricted: user.restricted,
+    home: user.home,
+    guest: user.guest,
+    can_invite: user.canInvite,
+    all_libraries: share?.allLibraries ?? null,
+    libraries: share ? share.sections.filter((section) => section.shared).map((section) => section.title) : [],
+    allow_sync: share?.allowSync ?? null,
+    allow_camera_upload: share?.allowCameraUpload ?? null,
+    allow_channels: share?.allowChannels ?? null,
+    allow_tuners: share?.allowTuners ?? null,
+    allow_subtitle_admin: share?.allowSubtitleAdmin ?? null,
+    filter_all: share?.filterAll ?? null,
+    filter_movies: share?.filterMovies ?? null,
+    filter_television: share?.filterTelevision ?? null,
+    filter_music: share?.filterMusic ?? null,
+    filter_photos: share?.filterPhotos ?? null,
+    invited_at: share?.invitedAt ?? null,
+    accepted_at: share?.acceptedAt ?? null,
+  };
+}
+
+function cellText(value: AccessExportRow[keyof AccessExportRow]): string {
+  if (value === null) {
+    return '';
+  }
+  return Array.isArray(value) ? value.join('; ') : String(value);
+}
+
+function csvCell(value: AccessExportRow[keyof AccessExportRow]): string {
+  const text = cellText(value);
+  // Prefix spreadsheet formula triggers so exported names cannot run as formulas.
+  const safe = /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+function markdownCell(value: AccessExportRow[keyof AccessExportRow]): string {
+  return cellText(value).replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+export function renderAccessExport(rows: AccessExportRow[], format: ExportFormat): string {
+  switch (format) {
+    case 'csv':
+      return [
+        EXPORT_COLUMNS.join(','),
+        ...rows.map((row) => EXPORT_COLUMNS.map((column) => csvCell(row[column])).join(',')),
+      ].join('\r\n');
+    case 'jsonl':
+      return rows.map((row) => JSON.stringify(row)).join('\n');
+    case 'markdown':
+      return [
+        `| ${EXPORT_COLUMNS.join(' | ')} |`,
+        `| ${EXPORT_COLUMNS.map(() => '---').join(' | ')} |`,
+        ...rows.map((row) => `| ${EXPORT_COLUMNS.map((column) => markdownCell(row[column])).join(' | ')} |`),
+      ].join('\n');
+  }
+}
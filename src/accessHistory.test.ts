@@ -0,0 +1,94 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AccessHistory, diffAccess, toAccessRecord } from './accessHistory.js';
+import { Logger } from './logger.js';
+import type { PlexUserAccess } from './types.js';
+
+const logger = new Logger('error');
+
+function user(overrides: Partial<PlexUserAccess>): PlexUserAccess {
+  return {
+    id: null,
+    uuid: null,
+    username: null,
+    title: null,
+    email: null,
+    restricted: false,
+    home: false,
+    guest: false,
+    canInvite: false,
+    serverIdentifier: 'server-a',
+    serverName: 'Basement',
+    accountLabel: 'primary',
+    share: null,
+    ...overrides,
+  };
+}
+
+const alice = user({ id: 2001, email: 'alice@example.com' });
+const bob = user({ id: 2002, username: 'bob' });
+const carol = user({ id: 2003, username: 'carol', serverIdentifier: 'server-b', serverName: 'Cabin' });
+
+test('diffs added, removed and changed access per server', () => {
+  const before = [alice, bob].map(toAccessRecord);
+  const after = [{ ...alice, restricted: true }, carol].map(toAccessRecord);
+
+  const diff = diffAccess(before, after);
+
+  assert.deepEqual(
+    diff.added.map((entry) => entry.user.username),
+    ['carol']
+  );
+  assert.deepEqual(
+    diff.removed.map((entry) => entry.user.username),
+    ['bob']
+  );
+  assert.deepEqual(diff.changed[0]?.changes, [{ field: 'restricted', before: false, after: true }]);
+});
+
+test('treats the same person on another server as a separate record', () => {
+  const diff = diffAccess([toAccessRecord(alice)], [toAccessRecord({ ...alice, serverIdentifier: 'server-b' })]);
+
+  assert.equal(diff.added.length, 1);
+  assert.equal(diff.removed.length, 1);
+});
+
+test('records only when access changes and carries over incomplete servers', async (t) => {
+  t.mock.timers.enable({ apis: ['Date'], now: Date.parse('2026-01-01T00:00:00Z') });
+  const history = new AccessHistory({ maxSnapshots: 2 }, logger);
+
+  assert.ok(await history.record([alice, bob, carol]));
+  t.mock.timers.tick(1000);
+  assert.equal(await history.record([carol, bob, alice]), null);
+
+  // server-b failed: carol is carried over instead of being recorded as removed.
+  const partial = await history.record([alice], (record) => record.serverIdentifier === 'server-b');
+  assert.deepEqual(
+    partial?.users.map((record) => record.id),
+    [2001, 2003]
+  );
+
+  t.mock.timers.tick(1000);
+  await history.record([bob]);
+  assert.deepEqual(
+    history.list().map((summary) => summary.recordedAt),
+    ['2026-01-01T00:00:01.000Z', '2026-01-01T00:00:02.000Z']
+  );
+  assert.equal(history.find('2026-01-01T00:00:01.500Z')?.recordedAt, '2026-01-01T00:00:01.000Z');
+  assert.equal(history.find('2025-12-31T00:00:00Z'), undefined);
+});
+
+test('reloads snapshots from its file', async (t) => {
+  const dir = mkdtempSync(join(tmpdir(), 'access-history-'));
+  t.after(() => rmSync(dir, { recursive: true, force: true }));
+  const filePath = join(dir, 'history.json');
+
+  const snapshot = await new AccessHistory({ filePath, maxSnapshots: 5 }, logger).record([alice]);
+  const reloaded = new AccessHistory({ filePath, maxSnapshots: 5 }, logger);
+
+  assert.deepEqual(reloaded.oldest(), snapshot);
+  assert.equal(await reloaded.record([alice]), null);
+});
@@ -0,0 +1,276 @@
+import { readFileSync } from 'fs';
+import { mkdir, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { identityKeys } from './identity.js';
+import { Logger } from './logger.js';
+import type { PlexUserAccess } from './types.js';
+
+const HISTORY_VERSION = 1;
+const FLAG_FIELDS = ['restricted', 'home', 'guest', 'canInvite'] as const;
+
+export type AccessFlag = (typeof FLAG_FIELDS)[number];
+
+export type AccessRecord = Pick<
+  PlexUserAccess,
+  | 'id'
+  | 'uuid'
+  | 'username'
+  | 'title'
+  | 'email'
+  | 'restricted'
+  | 'home'
+  | 'guest'
+  | 'canInvite'
+  | 'serverIdentifier'
+  | 'serverName'
+  | 'accountLabel'
+>;
+
+export interface AccessSnapshot {
+  id: string;
+  recordedAt: string;
+  users: AccessRecord[];
+}
+
+export interface AccessSnapshotSummary {
+  id: string;
+  recordedAt: string;
+  userCount: number;
+}
+
+export interface AccessHistoryOptions {
+  filePath?: string;
+  maxSnapshots: number;
+}
+
+export interface AccessFlagChange {
+  field: AccessFlag;
+  before: boolean | null;
+  after: boolean | null;
+}
+
+export interface AccessDiffEntry {
+  serverIdentifier: string;
+  serverName: string;
+  accountLabel: string;
+  user: AccessRecord;
+}
+
+export interface AccessChangeEntry extends AccessDiffEntry {
+  changes: AccessFlagChange[];
+}
+
+export interface AccessDiff {
+  added: AccessDiffEntry[];
+  removed: AccessDiffEntry[];
+  changed: AccessChangeEntry[];
+}
+
+export function toAccessRecord(user: PlexUserAccess): AccessRecord {
+  return {
+    id: user.id,
+    uuid: user.uuid,
+    username: user.username,
+    title: user.title,
+    email: user.email,
+    restricted: user.restricted,
+    home: user.home,
+    guest: user.guest,
+    canInvite: user.canInvite,
+    serverIdentifier: user.serverIdentifier,
+    serverName: user.serverName,
+    accountLabel: user.accountLabel,
+  };
+}
+
+function recordKey(record: AccessRecord): string {
+  const identity =
+    identityKeys(record)[0] ?? `username:${(record.username ?? record.title ?? 'unknown').toLowerCase()}`;
+  return `${record.serverIdentifier}:${record.accountLabel}:${identity}`;
+}
+
+function fingerprint(records: AccessRecord[]): string {
+  return records
+    .map((record) => `${recordKey(record)}:${FLAG_FIELDS.map((field) => String(record[field])).join(',')}`)
+    .sort()
+    .join('\n');
+}
+
+export function diffAccess(before: AccessRecord[], after: AccessRecord[]): AccessDiff {
+  const beforeByKey = new Map(before.map((record) => [recordKey(record), record]));
+  const afterByKey = new Map(after.map((record) => [recordKey(record), record]));
+  const diff: AccessDiff = { added: [], removed: [], changed: [] };
+
+  const entryFor = (record: AccessRecord): AccessDiffEntry => ({
+    serverIdentifier: record.serverIdentifier,
+    serverName: record.serverName,
+    accountLabel: record.accountLabel,
+    user: record,
+  });
+
+  for (const [key, record] of afterByKey) {
+    const previous = beforeByKey.get(key);
+    if (!previous) {
+      diff.added.push(entryFor(record));
+      continue;
+    }
+    const changes = FLAG_FIELDS.filter((field) => previous[field] !== record[field]).map((field) => ({
+      field,
+      before: previous[field],
+      after: record[field],
+    }));
+    if (changes.length > 0) {
+      diff.changed.push({ ...entryFor(record), changes });
+    }
+  }
+
+  for (const [key, record] of beforeByKey) {
+    if (!afterByKey.has(key)) {
+      diff.removed.push(entryFor(record));
+    }
+  }
+
+  return diff;
+}
+
+export class AccessHistory {
+  private readonly logger: Logger;
+  private readonly filePath: string | undefined;
+  private readonly maxSnapshots: number;
+  private snapshots: AccessSnapshot[] = [];
+  private lastFingerprint: string | null = null;
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(options: AccessHistoryOptions, logger: Logger) {
+    this.logger = logger.child('history');
+    this.filePath = options.filePath;
+    this.maxSnapshots = options.maxSnapshots;
+    this.load();
+  }
+
+  list(): AccessSnapshotSummary[] {
+    return this.snapshots.map((snapshot) => ({
+      id: snapshot.id,
+      recordedAt: snapshot.recordedAt,
+      userCount: snapshot.users.length,
+    }));
+  }
+
+  oldest(): AccessSnapshot | undefined {
+    return this.snapshots[0];
+  }
+
+  /**
+   * Resolves a snapshot id, or the latest snapshot recorded at or before an ISO timestamp.
+   */
+  find(reference: string): AccessSnapshot | undefined {
+    const exact = this.snapshots.find((snapshot) => snapshot.id === reference);
+    if (exact) {
+      return exact;
+    }
+    const timestamp = Date.parse(reference);
+    if (Number.isNaN(timestamp)) {
+      return undefined;
+    }
+    return this.findAtOrBefore(timestamp);
+  }
+
+  findAtOrBefore(timestamp: number): AccessSnapshot | undefined {
+    let match: AccessSnapshot | undefined;
+    for (const snapshot of this.snapshots) {
+      if (Date.parse(snapshot.recordedAt) <= timestamp) {
+        match = snapshot;
+      }
+    }
+    return match;
+  }
+
+  /**
+   * Records a snapshot when access changed. Rows for which `isIncomplete` holds (servers
+   * that failed during the fetch) are taken from the previous snapshot instead, so an
+   * outage is not recorded as everyone on that server losing access.
+   */
+  async record(
+    users: PlexUserAccess[],
+    isIncomplete: (record: AccessRecord) => boolean = () => false
+  ): Promise<AccessSnapshot | null> {
+    const latest = this.snapshots[this.snapshots.length - 1];
+    const current = users.map(toAccessRecord);
+    const records = latest
+      ? [...current.filter((record) => !isIncomplete(record)), ...latest.users.filter(isIncomplete)]
+      : current;
+    const print = fingerprint(records);
+    if (print === this.lastFingerprint) {
+      return null;
+    }
+
+    const recordedAt = new Date().toISOString();
+    const snapshot: AccessSnapshot = { id: recordedAt, recordedAt, users: records };
+    this.snapshots.push(snapshot);
+    if (this.snapshots.length > this.maxSnapshots) {
+      this.snapshots = this.snapshots.slice(this.snapshots.length - this.maxSnapshots);
+    }
+    this.lastFingerprint = print;
+    this.logger.info('Recorded access snapshot', { id: snapshot.id, users: records.length });
+
+    await this.persist();
+    return snapshot;
+  }
+
+  private load(): void {
+    if (!this.filePath) {
+      return;
+    }
+
+    let raw: string;
+    try {
+      raw = readFileSync(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger.warn('Unable to read access history file', {
+          path: this.filePath,
+          error_message: error instanceof Error ? error.message : String(error),
+        });
+      }
+      return;
+    }
+
+    try {
+      const parsed = JSON.parse(raw) as { version: number; snapshots: AccessSnapshot[] };
+      if (parsed?.version !== HISTORY_VERSION || !Array.isArray(parsed.snapshots)) {
+        this.logger.warn('Ignoring access history with unsupported format', { path: this.filePath });
+        return;
+      }
+      this.snapshots = parsed.snapshots.slice(-this.maxSnapshots);
+      const latest = this.snapshots[this.snapshots.length - 1];
+      this.lastFingerprint = latest ? fingerprint(latest.users) : null;
+    } catch (error) {
+      this.logger.warn('Access history file is not valid JSON', {
+        path: this.filePath,
+        error_message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private persist(): Promise<void> {
+    const filePath = this.filePath;
+    if (!filePath) {
+      return Promise.resolve();
+    }
+
+    const payload = JSON.stringify({ version: HISTORY_VERSION, snapshots: this.snapshots });
+    const write = this.pending.then(async () => {
+      await mkdir(dirname(filePath), { recursive: true });
+      const tempPath = `${filePath}.tmp`;
+      await writeFile(tempPath, payload, 'utf8');
+      await rename(tempPath, filePath);
+    });
+    this.pending = write.catch(() => undefined);
+    return write.catch((error) => {
+      this.logger.warn('Failed to write access history', {
+        path: filePath,
+        error_message: error instanceof Error ? error.message : String(error),
+      });
+    });
+  }
+}
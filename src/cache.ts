@@ -20,13 +20,27 @@ export class TTLCache<K, V> {
     return entry.value;
   }
 
-  set(key: K, value: V): void {
+  /** `storedAt` lets restored entries keep only the TTL left since they were fetched. */
+  set(key: K, value: V, storedAt = Date.now()): void {
     this.store.set(key, {
       value,
-      expiresAt: Date.now() + this.ttlMs,
+      expiresAt: storedAt + this.ttlMs,
     });
   }
 
+  entries(): Array<[K, V]> {
+    const now = Date.now();
+    const live: Array<[K, V]> = [];
+    for (const [key, entry] of this.store) {
+      if (now > entry.expiresAt) {
+        this.store.delete(key);
+      } else {
+        live.push([key, entry.value]);
+      }
+    }
+    return live;
+  }
+
   clear(key?: K): void {
     if (typeof key === 'undefined') {
       this.store.clear();
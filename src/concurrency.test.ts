@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createLimiter, Deadline, DEADLINE_EXCEEDED, DeadlineExceededError } from './concurrency.js';
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((done) => {
+    resolve = done;
+  });
+  return { promise, resolve };
+}
+
+test('runs at most the given number of tasks at once', async () => {
+  const limit = createLimiter(2);
+  const gates = [deferred<void>(), deferred<void>(), deferred<void>()];
+  let active = 0;
+  let peak = 0;
+
+  const results = Promise.all(
+    gates.map((gate, index) =>
+      limit(async () => {
+        active += 1;
+        peak = Math.max(peak, active);
+        await gate.promise;
+        active -= 1;
+        return index;
+      })
+    )
+  );
+  await new Promise((resolve) => setImmediate(resolve));
+  assert.equal(active, 2);
+
+  gates.forEach((gate) => gate.resolve());
+  assert.deepEqual(await results, [0, 1, 2]);
+  assert.equal(peak, 2);
+});
+
+test('keeps going after a task fails', async () => {
+  const limit = createLimiter(1);
+
+  await assert.rejects(
+    limit(() => Promise.reject(new Error('boom'))),
+    /boom/
+  );
+  assert.equal(await limit(async () => 'next'), 'next');
+});
+
+test('never starts queued tasks once the deadline has passed', async () => {
+  const deadline = new Deadline(0);
+  const limit = createLimiter(1, deadline);
+  let started = false;
+
+  const run = limit(async () => {
+    started = true;
+  });
+
+  await assert.rejects(run, DeadlineExceededError);
+  assert.equal(started, false);
+  assert.equal(await deadline.race(run), DEADLINE_EXCEEDED);
+});
+
+test('races a task against the deadline', async (t) => {
+  t.mock.timers.enable({ apis: ['setTimeout'] });
+  const deadline = new Deadline(50);
+  const slow = deferred<string>();
+
+  const raced = deadline.race(slow.promise);
+  t.mock.timers.tick(50);
+
+  assert.equal(await raced, DEADLINE_EXCEEDED);
+  assert.equal(await deadline.race(Promise.resolve('fast')), 'fast');
+  await assert.rejects(deadline.race(Promise.reject(new Error('boom'))), /boom/);
+});
@@ -0,0 +1,82 @@
+export const DEADLINE_EXCEEDED: unique symbol = Symbol('deadline-exceeded');
+
+export class DeadlineExceededError extends Error {
+  constructor() {
+    super('Discovery deadline exceeded before the task started');
+    this.name = 'DeadlineExceededError';
+  }
+}
+
+export class Deadline {
+  private readonly expiresAt: number;
+
+  constructor(readonly timeoutMs: number) {
+    this.expiresAt = Date.now() + timeoutMs;
+  }
+
+  remainingMs(): number {
+    return Math.max(0, this.expiresAt - Date.now());
+  }
+
+  expired(): boolean {
+    return Date.now() >= this.expiresAt;
+  }
+
+  /**
+   * Resolves with the task result, or DEADLINE_EXCEEDED once the deadline passes. The task
+   * itself keeps running; late results are simply ignored by the caller.
+   */
+  race<T>(task: Promise<T>): Promise<T | typeof DEADLINE_EXCEEDED> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => resolve(DEADLINE_EXCEEDED), this.remainingMs());
+      task.then(
+        (value) => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        (error) => {
+          clearTimeout(timer);
+          if (error instanceof DeadlineExceededError) {
+            resolve(DEADLINE_EXCEEDED);
+          } else {
+            reject(error);
+          }
+        }
+      );
+    });
+  }
+}
+
+export type Limiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+/**
+ * Runs at most `concurrency` tasks at once. Tasks still queued when the deadline passes
+ * are never started and reject with DeadlineExceededError.
+ */
+export function createLimiter(concurrency: number, deadline?: Deadline): Limiter {
+  let active = 0;
+  const queue: Array<() => void> = [];
+
+  const next = () => {
+    if (active >= concurrency) {
+      return;
+    }
+    const start = queue.shift();
+    if (start) {
+      active += 1;
+      start();
+    }
+  };
+
+  return <T>(task: () => Promise<T>) =>
+    new Promise<T>((resolve, reject) => {
+      queue.push(() => {
+        const run = deadline?.expired() ? Promise.reject(new DeadlineExceededError()) : Promise.resolve().then(task);
+        run.then(resolve, reject).finally(() => {
+          active -= 1;
+          next();
+        });
+      });
+      next();
+    });
+}
@@ -0,0 +1,26 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { emailDomain, normalizeDomain, normalizeEmail } from './email.js';
+
+test('case-folds and strips plus tags', () => {
+  assert.equal(normalizeEmail('  Alice+Plex@Example.com '), 'alice@example.com');
+  assert.equal(normalizeEmail('first.last@example.com'), 'first.last@example.com');
+});
+
+test('applies Gmail rules', () => {
+  assert.equal(normalizeEmail('First.Last+tv@googlemail.com'), 'firstlast@gmail.com');
+  assert.equal(normalizeEmail('firstlast@gmail.com'), 'firstlast@gmail.com');
+});
+
+test('only case-folds strings without a local part', () => {
+  assert.equal(normalizeEmail('Alice'), 'alice');
+  assert.equal(normalizeEmail('@Example.com'), '@example.com');
+  assert.equal(normalizeEmail('+tag@example.com'), '+tag@example.com');
+});
+
+test('normalizes domains', () => {
+  assert.equal(normalizeDomain('@GoogleMail.com'), 'gmail.com');
+  assert.equal(emailDomain('bob@OurCompany.com'), 'ourcompany.com');
+  assert.equal(emailDomain('bob@'), null);
+  assert.equal(emailDomain('bob'), null);
+});
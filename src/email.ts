@@ -0,0 +1,40 @@
+const DOMAIN_ALIASES: Record<string, string> = {
+  'googlemail.com': 'gmail.com',
+};
+
+// Providers that ignore dots in the local part, so first.last and firstlast are one mailbox.
+const DOTLESS_DOMAINS = new Set(['gmail.com']);
+
+export function normalizeDomain(domain: string): string {
+  const folded = domain.trim().toLowerCase().replace(/^@/, '');
+  return DOMAIN_ALIASES[folded] ?? folded;
+}
+
+/**
+ * Canonical form used to match and deduplicate addresses: case-folded, plus-tag stripped,
+ * and with provider-specific rules applied (Gmail ignores dots, googlemail.com is gmail.com).
+ * Strings without an @ are only case-folded.
+ */
+export function normalizeEmail(email: string): string {
+  const folded = email.trim().toLowerCase();
+  const at = folded.lastIndexOf('@');
+  if (at <= 0) {
+    return folded;
+  }
+
+  const domain = normalizeDomain(folded.slice(at + 1));
+  let local = folded.slice(0, at);
+  const plus = local.indexOf('+');
+  if (plus > 0) {
+    local = local.slice(0, plus);
+  }
+  if (DOTLESS_DOMAINS.has(domain)) {
+    local = local.replace(/\./g, '');
+  }
+  return `${local}@${domain}`;
+}
+
+export function emailDomain(email: string): string | null {
+  const at = email.lastIndexOf('@');
+  return at > 0 && at < email.length - 1 ? normalizeDomain(email.slice(at + 1)) : null;
+}
@@ -0,0 +1,647 @@
+import { createServer } from 'http';
+import type { IncomingMessage, Server, ServerResponse } from 'http';
+import { Logger } from './logger.js';
+
+export interface FakePlexAccount {
+  label: string;
+  token: string;
+  id: number;
+  uuid: string;
+  username: string;
+  email: string;
+  plexPass: boolean;
+}
+
+export interface FakePlexUser {
+  id: number;
+  uuid: string;
+  username: string;
+  title: string;
+  email: string;
+}
+
+export interface FakePlexSection {
+  id: number;
+  key: string;
+  title: string;
+  type: string;
+}
+
+export interface FakePlexShare {
+  id: number;
+  userId: number;
+  sectionKeys: string[];
+  allowSync: boolean;
+  invitedAt: string;
+  acceptedAt: string | null;
+}
+
+export interface FakePlexViewing {
+  accountId: number;
+  viewedAt: number;
+  title: string;
+  type: string;
+}
+
+export interface FakePlexSession {
+  sessionId: string;
+  accountId: number;
+  title: string;
+  grandparentTitle?: string;
+  type: string;
+  player: { title: string; product: string; platform: string; device: string; address: string; local: boolean; state: string };
+  videoDecision?: 'transcode' | 'copy';
+  audioDecision?: 'transcode' | 'copy';
+  bandwidth: number;
+}
+
+export interface FakePlexServerDefinition {
+  machineIdentifier: string;
+  name: string;
+  ownerLabel: string;
+  visibleToLabels: string[];
+  sections: FakePlexSection[];
+  shares: FakePlexShare[];
+  history: FakePlexViewing[];
+  sessions: FakePlexSession[];
+}
+
+export interface FakePlexHomeMember {
+  id: number;
+  uuid: string;
+  username: string;
+  title: string;
+  email: string | null;
+  admin: boolean;
+  restricted: boolean;
+  pin: string | null;
+}
+
+export interface FakePlexHome {
+  ownerLabel: string;
+  members: FakePlexHomeMember[];
+}
+
+export interface FakePlexDataset {
+  accounts: FakePlexAccount[];
+  users: FakePlexUser[];
+  servers: FakePlexServerDefinition[];
+  homes: FakePlexHome[];
+}
+
+export interface FakePlexServerHandle {
+  url: string;
+  dataset: FakePlexDataset;
+  close(): Promise<void>;
+}
+
+export function createDemoDataset(): FakePlexDataset {
+  const invitedAt = '2024-01-15T12:00:00Z';
+  const daysAgo = (days: number) => Math.floor(Date.now() / 1000) - days * 86400;
+  return {
+    accounts: [
+      { label: 'primary', token: 'demo-primary-token', id: 1001, uuid: 'acc-primary', username: 'homeowner', email: 'owner@example.com', plexPass: true },
+      { label: 'secondary', token: 'demo-secondary-token', id: 1002, uuid: 'acc-secondary', username: 'cabinkeeper', email: 'keeper@example.com', plexPass: false },
+    ],
+    users: [
+      { id: 2001, uuid: 'usr-alice', username: 'alice', title: 'Alice Anders', email: 'alice@example.com' },
+      { id: 2002, uuid: 'usr-bob', username: 'bobby', title: 'Bob Baker', email: 'bob@example.com' },
+      { id: 2003, uuid: 'usr-carol', username: 'carol', title: 'Carol Chen', email: 'carol@ourcompany.com' },
+      { id: 2004, uuid: 'usr-dave', username: 'dave', title: 'Dave Diaz', email: 'dave@ourcompany.com' },
+    ],
+    servers: [
+      {
+        machineIdentifier: 'demo-basement',
+        name: 'Basement',
+        ownerLabel: 'primary',
+        visibleToLabels: [],
+        sections: [
+          { id: 101, key: '1', title: 'Movies', type: 'movie' },
+          { id: 102, key: '2', title: 'TV Shows', type: 'show' },
+          { id: 103, key: '3', title: 'Music', type: 'artist' },
+        ],
+        shares: [
+          { id: 5001, userId: 2001, sectionKeys: ['1', '2'], allowSync: true, invitedAt, acceptedAt: invitedAt },
+          { id: 5002, userId: 2002, sectionKeys: ['1'], allowSync: false, invitedAt, acceptedAt: invitedAt },
+          { id: 5003, userId: 2003, sectionKeys: ['1', '2', '3'], allowSync: false, invitedAt, acceptedAt: null },
+        ],
+        history: [
+          { accountId: 1001, viewedAt: daysAgo(1), title: 'The Matrix', type: 'movie' },
+          { accountId: 2001, viewedAt: daysAgo(12), title: 'Pilot', type: 'episode' },
+          { accountId: 2001, viewedAt: daysAgo(40), title: 'Arrival', type: 'movie' },
+          { accountId: 2002, viewedAt: daysAgo(410), title: 'Heat', type: 'movie' },
+        ],
+        sessions: [
+          {
+            sessionId: 'sess-basement-1',
+            accountId: 1001,
+            title: 'The Matrix Reloaded',
+            type: 'movie',
+            player: { title: 'Living Room TV', product: 'Plex for LG', platform: 'webOS', device: 'OLED65C1', address: '192.168.1.20', local: true, state: 'playing' },
+            bandwidth: 21000,
+          },
+          {
+            sessionId: 'sess-basement-2',
+            accountId: 2001,
+            title: 'Good News About Hell',
+            grandparentTitle: 'Severance',
+            type: 'episode',
+            player: { title: "Alice's iPhone", product: 'Plex for iOS', platform: 'iOS', device: 'iPhone', address: '203.0.113.7', local: false, state: 'playing' },
+            videoDecision: 'transcode',
+            audioDecision: 'copy',
+            bandwidth: 4200,
+          },
+        ],
+      },
+      {
+        machineIdentifier: 'demo-cabin',
+        name: 'Cabin',
+        ownerLabel: 'secondary',
+        visibleToLabels: ['primary'],
+        sections: [
+          { id: 201, key: '1', title: 'Movies', type: 'movie' },
+          { id: 202, key: '4', title: 'Kids', type: 'movie' },
+        ],
+        shares: [
+          { id: 6001, userId: 2001, sectionKeys: ['4'], allowSync: false, invitedAt, acceptedAt: invitedAt },
+          { id: 6002, userId: 2004, sectionKeys: ['1', '4'], allowSync: true, invitedAt, acceptedAt: invitedAt },
+        ],
+        history: [
+          { accountId: 2001, viewedAt: daysAgo(95), title: 'Paddington', type: 'movie' },
+          { accountId: 2004, viewedAt: daysAgo(3), title: 'Moana', type: 'movie' },
+        ],
+        sessions: [
+          {
+            sessionId: 'sess-cabin-1',
+            accountId: 2004,
+            title: 'Moana 2',
+            type: 'movie',
+            player: { title: 'Chrome', product: 'Plex Web', platform: 'Chrome', device: 'Windows', address: '198.51.100.4', local: false, state: 'paused' },
+            videoDecision: 'copy',
+            audioDecision: 'transcode',
+            bandwidth: 9800,
+          },
+        ],
+      },
+    ],
+    homes: [
+      {
+        ownerLabel: 'primary',
+        members: [
+          { id: 1001, uuid: 'acc-primary', username: 'homeowner', title: 'homeowner', email: 'owner@example.com', admin: true, restricted: false, pin: null },
+          { id: 2001, uuid: 'usr-alice', username: 'alice', title: 'Alice Anders', email: 'alice@example.com', admin: false, restricted: false, pin: '1234' },
+          { id: 4001, uuid: 'home-kids', username: '', title: 'Kids', email: null, admin: false, restricted: true, pin: null },
+        ],
+      },
+    ],
+  };
+}
+
+function escapeXml(value: unknown): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+function xmlElement(name: string, attrs: Record<string, unknown>, children: string[] = []): string {
+  const rendered = Object.entries(attrs)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([key, value]) => ` ${key}="${escapeXml(value)}"`)
+    .join('');
+  return children.length > 0 ? `<${name}${rendered}>${children.join('')}</${name}>` : `<${name}${rendered}/>`;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function sendXml(res: ServerResponse, status: number, body: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/xml' });
+  res.end(`<?xml version="1.0" encoding="UTF-8"?>${body}`);
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * In-process stand-in for plex.tv and the Plex Media Servers it advertises. Resource
+ * connections point back at this server under /servers/{machineIdentifier}, so a single
+ * port serves both the plex.tv API and every fake server.
+ */
+export class FakePlexBackend {
+  private nextShareId = 9000;
+  private nextPinId = 1;
+  private readonly pins = new Map<number, { code: string; polls: number }>();
+
+  constructor(readonly dataset: FakePlexDataset, private readonly logger: Logger) {}
+
+  async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+    const method = req.method ?? 'GET';
+    const token = (req.headers['x-plex-token'] as string | undefined) ?? url.searchParams.get('X-Plex-Token');
+    const account = this.dataset.accounts.find((candidate) => candidate.token === token);
+    const segments = url.pathname.split('/').filter(Boolean);
+    this.logger.debug('Fake Plex request', { method, path: url.pathname });
+
+    if (method === 'POST' && url.pathname === '/api/v2/pins') {
+      const id = this.nextPinId++;
+      const code = `DEMO${id}`;
+      this.pins.set(id, { code, polls: 0 });
+      sendJson(res, 201, this.pinBody(id, code, null));
+      return;
+    }
+    if (method === 'GET' && segments[0] === 'api' && segments[1] === 'v2' && segments[2] === 'pins' && segments[3]) {
+      const id = Number(segments[3]);
+      const pin = this.pins.get(id);
+      if (!pin) {
+        sendJson(res, 404, { errors: [{ message: 'Not found' }] });
+        return;
+      }
+      pin.polls += 1;
+      const authorized = pin.polls > 1 ? (this.dataset.accounts[0]?.token ?? null) : null;
+      sendJson(res, 200, this.pinBody(id, pin.code, authorized));
+      return;
+    }
+
+    if (!account) {
+      sendJson(res, 401, { errors: [{ code: 1001, message: 'User could not be authenticated' }] });
+      return;
+    }
+
+    if (method === 'GET' && url.pathname === '/users/account.json') {
+      sendJson(res, 200, {
+        user: {
+          id: account.id,
+          uuid: account.uuid,
+          username: account.username,
+          title: account.username,
+          email: account.email,
+          subscription: account.plexPass
+            ? { active: true, status: 'Active', plan: 'lifetime' }
+            : { active: false, status: 'Inactive', plan: null },
+        },
+      });
+      return;
+    }
+    if (method === 'GET' && url.pathname === '/pms/resources') {
+      sendXml(res, 200, this.resourcesXml(account, url.origin));
+      return;
+    }
+    if (segments[0] === 'api' && segments[1] === 'home' && segments[2] === 'users') {
+      this.handleHomeUsers(res, url, account, segments.slice(3), method);
+      return;
+    }
+    if (segments[0] === 'api' && segments[1] === 'servers' && segments[2]) {
+      await this.handleServerApi(req, res, account, segments.slice(2), method);
+      return;
+    }
+    if (segments[0] === 'servers' && segments[1]) {
+      this.handleMediaServer(res, url, account, segments[1], segments.slice(2));
+      return;
+    }
+
+    sendJson(res, 404, { errors: [{ message: `No fake route for ${method} ${url.pathname}` }] });
+  }
+
+  private pinBody(id: number, code: string, authToken: string | null) {
+    return {
+      id,
+      code,
+      expiresAt: new Date(Date.now() + 15 * 60 * 1000).toISOString(),
+      authToken,
+    };
+  }
+
+  private findHome(account: FakePlexAccount): FakePlexHome | undefined {
+    return this.dataset.homes.find(
+      (home) => home.ownerLabel === account.label || home.members.some((member) => member.id === account.id)
+    );
+  }
+
+  private handleHomeUsers(res: ServerResponse, url: URL, account: FakePlexAccount, segments: string[], method: string): void {
+    const home = this.findHome(account);
+    if (segments.length === 0 && method === 'GET') {
+      const users = (home?.members ?? []).map((member) =>
+        xmlElement('User', {
+          id: member.id,
+          uuid: member.uuid,
+          admin: member.admin ? '1' : '0',
+          guest: '0',
+          restricted: member.restricted ? '1' : '0',
+          protected: member.pin ? '1' : '0',
+          title: member.title,
+          username: member.username,
+          email: member.email ?? '',
+        })
+      );
+      sendXml(res, 200, xmlElement('MediaContainer', { size: users.length }, users));
+      return;
+    }
+
+    const member = home?.members.find((candidate) => String(candidate.id) === segments[0]);
+    if (!home || !member || segments[1] !== 'switch' || method !== 'POST') {
+      sendJson(res, 404, { errors: [{ message: 'Not found' }] });
+      return;
+    }
+    if (member.pin && url.searchParams.get('pin') !== member.pin) {
+      sendJson(res, 401, { errors: [{ code: 1041, message: 'Invalid PIN' }] });
+      return;
+    }
+
+    // Switched members become fake accounts that see the servers shared with them; managed
+    // profiles see the home owner's servers.
+    const token = `demo-home-${member.id}-token`;
+    if (!this.dataset.accounts.some((candidate) => candidate.token === token)) {
+      const label = `home-${member.id}`;
+      this.dataset.accounts.push({
+        label,
+        token,
+        id: member.id,
+        uuid: member.uuid,
+        username: member.username || member.title,
+        email: member.email ?? '',
+        plexPass: false,
+      });
+      for (const server of this.dataset.servers) {
+        const shared = server.shares.some((share) => share.userId === member.id);
+        if (shared || (member.restricted && server.ownerLabel === home.ownerLabel)) {
+          server.visibleToLabels.push(label);
+        }
+      }
+    }
+    sendXml(res, 201, xmlElement('user', { id: member.id, uuid: member.uuid, title: member.title, authenticationToken: token }));
+  }
+
+  private findServer(machineIdentifier: string): FakePlexServerDefinition | undefined {
+    return this.dataset.servers.find((server) => server.machineIdentifier === machineIdentifier);
+  }
+
+  private canSee(account: FakePlexAccount, server: FakePlexServerDefinition): boolean {
+    return server.ownerLabel === account.label || server.visibleToLabels.includes(account.label);
+  }
+
+  private resourcesXml(account: FakePlexAccount, origin: string): string {
+    const devices = this.dataset.servers
+      .filter((server) => this.canSee(account, server))
+      .map((server) => {
+        const uri = `${origin}/servers/${server.machineIdentifier}`;
+        const host = new URL(origin);
+        return xmlElement(
+          'Device',
+          {
+            name: server.name,
+            product: 'Plex Media Server',
+            productVersion: '1.40.0.0000',
+            platform: 'Linux',
+            clientIdentifier: server.machineIdentifier,
+            provides: 'server',
+            owned: server.ownerLabel === account.label ? '1' : '0',
+            accessToken: account.token,
+          },
+          [
+            xmlElement('Connection', {
+              protocol: 'http',
+              address: host.hostname,
+              port: host.port || '80',
+              uri,
+              local: '1',
+              relay: '0',
+            }),
+          ]
+        );
+      });
+    return xmlElement('MediaContainer', { size: devices.length }, devices);
+  }
+
+  private sharedServersXml(server: FakePlexServerDefinition): string {
+    const entries = server.shares.map((share) => {
+      const user = this.dataset.users.find((candidate) => candidate.id === share.userId);
+      const sections = server.sections.map((section) =>
+        xmlElement('Section', {
+          id: section.id,
+          key: section.key,
+          title: section.title,
+          type: section.type,
+          shared: share.sectionKeys.includes(section.key) ? '1' : '0',
+        })
+      );
+      return xmlElement(
+        'SharedServer',
+        {
+          id: share.id,
+          userID: share.userId,
+          username: user?.username,
+          email: user?.email,
+          name: user?.title,
+          machineIdentifier: server.machineIdentifier,
+          invitedAt: share.invitedAt,
+          acceptedAt: share.acceptedAt ?? undefined,
+          allowSync: share.allowSync ? '1' : '0',
+          allLibraries: share.sectionKeys.length === server.sections.length ? '1' : '0',
+          owned: '0',
+        },
+        sections
+      );
+    });
+    return xmlElement('MediaContainer', { size: entries.length, machineIdentifier: server.machineIdentifier }, entries);
+  }
+
+  private async handleServerApi(
+    req: IncomingMessage,
+    res: ServerResponse,
+    account: FakePlexAccount,
+    segments: string[],
+    method: string
+  ): Promise<void> {
+    const server = this.findServer(segments[0] ?? '');
+    if (!server) {
+      sendJson(res, 404, { errors: [{ message: 'Server not found' }] });
+      return;
+    }
+    if (server.ownerLabel !== account.label) {
+      sendJson(res, 403, { errors: [{ message: 'Only the server owner can manage shares' }] });
+      return;
+    }
+
+    if (segments.length === 1 && method === 'GET') {
+      const sections = server.sections.map((section) => xmlElement('Section', { ...section }));
+      sendXml(res, 200, xmlElement('MediaContainer', { size: 1 }, [xmlElement('Server', { name: server.name, machineIdentifier: server.machineIdentifier }, sections)]));
+      return;
+    }
+    if (segments[1] !== 'shared_servers') {
+      sendJson(res, 404, { errors: [{ message: 'Not found' }] });
+      return;
+    }
+    if (segments.length === 2 && method === 'GET') {
+      sendXml(res, 200, this.sharedServersXml(server));
+      return;
+    }
+
+    const body = method === 'POST' || method === 'PUT' ? JSON.parse((await readBody(req)) || '{}') : {};
+    const sectionKeys = (ids: unknown): string[] =>
+      Array.isArray(ids)
+        ? server.sections.filter((section) => ids.map(Number).includes(section.id)).map((section) => section.key)
+        : [];
+
+    if (segments.length === 2 && method === 'POST') {
+      const email = String(body?.shared_server?.invited_email ?? '').toLowerCase();
+      let user = this.dataset.users.find((candidate) => candidate.email.toLowerCase() === email);
+      if (!user) {
+        const id = 3000 + this.dataset.users.length;
+        user = { id, uuid: `usr-${id}`, username: email.split('@')[0] ?? email, title: email, email };
+        this.dataset.users.push(user);
+      }
+      const share: FakePlexShare = {
+        id: this.nextShareId++,
+        userId: user.id,
+        sectionKeys: sectionKeys(body?.shared_server?.library_section_ids),
+        allowSync: body?.sharing_settings?.allowSync === '1',
+        invitedAt: new Date().toISOString(),
+        acceptedAt: null,
+      };
+      server.shares.push(share);
+      sendJson(res, 201, { shared_server: { id: share.id, user_id: user.id, invited_email: email } });
+      return;
+    }
+
+    const share = server.shares.find((candidate) => candidate.id === Number(segments[2]));
+    if (!share) {
+      sendJson(res, 404, { errors: [{ message: 'Share not found' }] });
+      return;
+    }
+    if (method === 'PUT') {
+      share.sectionKeys = sectionKeys(body?.shared_server?.library_section_ids);
+      sendJson(res, 200, { shared_server: { id: share.id, user_id: share.userId } });
+      return;
+    }
+    if (method === 'DELETE') {
+      server.shares = server.shares.filter((candidate) => candidate !== share);
+      res.writeHead(200).end();
+      return;
+    }
+    sendJson(res, 405, { errors: [{ message: 'Method not allowed' }] });
+  }
+
+  private handleMediaServer(
+    res: ServerResponse,
+    url: URL,
+    account: FakePlexAccount,
+    machineIdentifier: string,
+    segments: string[]
+  ): void {
+    const server = this.findServer(machineIdentifier);
+    if (!server || !this.canSee(account, server)) {
+      sendJson(res, 401, { errors: [{ message: 'Unauthorized' }] });
+      return;
+    }
+
+    if (segments.length === 0) {
+      sendJson(res, 200, {
+        MediaContainer: { friendlyName: server.name, machineIdentifier: server.machineIdentifier, version: '1.40.0.0000' },
+      });
+      return;
+    }
+    if (segments[0] === 'accounts' && segments.length === 1) {
+      if (server.ownerLabel !== account.label) {
+        sendJson(res, 401, { errors: [{ message: 'Unauthorized' }] });
+        return;
+      }
+      const owner = this.dataset.accounts.find((candidate) => candidate.label === server.ownerLabel);
+      const accounts = [
+        ...(owner ? [{ id: owner.id, name: owner.username }] : []),
+        ...server.shares
+          .map((share) => this.dataset.users.find((user) => user.id === share.userId))
+          .filter((user): user is FakePlexUser => Boolean(user))
+          .map((user) => ({ id: user.id, name: user.username })),
+      ];
+      sendJson(res, 200, { MediaContainer: { size: accounts.length, Account: accounts } });
+      return;
+    }
+    if (segments.join('/') === 'status/sessions') {
+      if (server.ownerLabel !== account.label) {
+        sendJson(res, 401, { errors: [{ message: 'Unauthorized' }] });
+        return;
+      }
+      const metadata = server.sessions.map((session) => {
+        const user = [...this.dataset.accounts, ...this.dataset.users].find((candidate) => candidate.id === session.accountId);
+        return {
+          sessionKey: session.sessionId,
+          title: session.title,
+          grandparentTitle: session.grandparentTitle,
+          type: session.type,
+          User: { id: String(session.accountId), title: user?.username ?? 'Unknown' },
+          Player: { ...session.player, local: session.player.local ? 1 : 0 },
+          Session: { id: session.sessionId, bandwidth: session.bandwidth, location: session.player.local ? 'lan' : 'wan' },
+          ...(session.videoDecision || session.audioDecision
+            ? { TranscodeSession: { videoDecision: session.videoDecision, audioDecision: session.audioDecision } }
+            : {}),
+        };
+      });
+      sendJson(res, 200, { MediaContainer: { size: metadata.length, Metadata: metadata } });
+      return;
+    }
+    if (segments.join('/') === 'status/sessions/history/all') {
+      if (server.ownerLabel !== account.label) {
+        sendJson(res, 401, { errors: [{ message: 'Unauthorized' }] });
+        return;
+      }
+      const accountId = url.searchParams.get('accountID');
+      const start = Number(url.searchParams.get('X-Plex-Container-Start') ?? 0);
+      const size = Number(url.searchParams.get('X-Plex-Container-Size') ?? 100);
+      const entries = server.history
+        .filter((entry) => accountId === null || String(entry.accountId) === accountId)
+        .sort((a, b) => b.viewedAt - a.viewedAt);
+      const page = entries.slice(start, start + size).map((entry) => ({
+        accountID: entry.accountId,
+        viewedAt: entry.viewedAt,
+        title: entry.title,
+        type: entry.type,
+      }));
+      sendJson(res, 200, { MediaContainer: { size: page.length, totalSize: entries.length, Metadata: page } });
+      return;
+    }
+
+    sendJson(res, 404, { errors: [{ message: 'Not found' }] });
+  }
+}
+
+export function startFakePlexServer(
+  port: number,
+  logger: Logger,
+  dataset: FakePlexDataset = createDemoDataset(),
+  host = '127.0.0.1'
+): FakePlexServerHandle {
+  const fakeLogger = logger.child('fake-plex');
+  const backend = new FakePlexBackend(dataset, fakeLogger);
+  const server: Server = createServer((req, res) => {
+    backend.handle(req, res).catch((error) => {
+      fakeLogger.error('Fake Plex handler failed', {
+        error_message: error instanceof Error ? error.message : String(error),
+      });
+      if (!res.headersSent) {
+        sendJson(res, 500, { errors: [{ message: 'Internal error' }] });
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  server.listen(port, host);
+  server.on('listening', () => fakeLogger.info('Fake Plex backend listening', { host, port }));
+  server.on('error', (error) => fakeLogger.error('Fake Plex backend error', { error_message: error.message }));
+
+  return {
+    url: `http://${host}:${port}`,
+    dataset,
+    close: () => new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve()))),
+  };
+}
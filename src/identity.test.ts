@@ -0,0 +1,91 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildProfile, groupUserRows, homeServerIdentifier, pairAccountRows } from './identity.js';
+import type { PlexShareDetails, PlexUserAccess } from './types.js';
+
+// Grouping only checks whether a row has a share, not what it contains.
+const SHARE = {} as PlexShareDetails;
+
+function user(overrides: Partial<PlexUserAccess>): PlexUserAccess {
+  return {
+    id: null,
+    uuid: null,
+    username: null,
+    title: null,
+    email: null,
+    restricted: null,
+    home: null,
+    guest: null,
+    canInvite: null,
+    serverIdentifier: 'server-a',
+    serverName: 'Server A',
+    accountLabel: 'primary',
+    share: null,
+    ...overrides,
+  };
+}
+
+test('links share rows across servers by plex.tv id, uuid and case-folded email, transitively', () => {
+  const a = user({ id: 2001, email: 'Alice@Example.com', share: SHARE });
+  const b = user({ id: 2001, uuid: 'u-alice', serverIdentifier: 'server-b', share: SHARE });
+  const c = user({ uuid: 'U-ALICE', serverIdentifier: 'server-c', share: SHARE });
+  const d = user({ email: 'alice@example.com', serverIdentifier: 'server-d', share: SHARE });
+  const bob = user({ id: 2002, share: SHARE });
+
+  assert.deepEqual(groupUserRows([a, bob, b, c, d]), [[a, b, c, d], [bob]]);
+});
+
+test('scopes local account ids to their server', () => {
+  // Every server lists its owner as account 1, so id alone must not link them.
+  const ownerA = user({ id: 1, username: 'owner-a' });
+  const ownerB = user({ id: 1, username: 'owner-b', serverIdentifier: 'server-b', accountLabel: 'secondary' });
+
+  assert.equal(groupUserRows([ownerA, ownerB]).length, 2);
+});
+
+test("links share-less rows by name across one account's servers and Plex Home", () => {
+  const basement = user({ id: 1, username: 'homeowner' });
+  const cabin = user({ id: 1, username: 'HomeOwner', serverIdentifier: 'server-b' });
+  const home = user({ id: 1001, username: 'homeowner', serverIdentifier: homeServerIdentifier('primary') });
+  const other = user({ id: 1, username: 'homeowner', accountLabel: 'secondary', serverIdentifier: 'server-c' });
+
+  assert.deepEqual(groupUserRows([basement, cabin, home, other]), [[basement, cabin, home], [other]]);
+});
+
+test('does not merge normalized email variants', () => {
+  const literal = user({ email: 'first.last@gmail.com', share: SHARE });
+  const tagged = user({ email: 'firstlast+plex@gmail.com', share: SHARE });
+
+  assert.equal(groupUserRows([literal, tagged]).length, 2);
+});
+
+test('pairs the /accounts and share rows one server reports for an account', () => {
+  const local = user({ id: 2001, username: 'alice' });
+  const shared = user({ id: 2001, email: 'alice@example.com', share: SHARE });
+  const other = user({ id: 2002, username: 'alice' });
+
+  const [merged, ...rest] = pairAccountRows([local, shared, other]);
+
+  assert.deepEqual(rest, [other]);
+  assert.equal(merged?.username, 'alice');
+  assert.equal(merged?.email, 'alice@example.com');
+  assert.equal(merged?.share, SHARE);
+});
+
+test('builds a profile with servers, homes and conflicts', () => {
+  const profile = buildProfile([
+    user({ id: 2001, username: 'alice', email: 'alice@example.com', share: SHARE }),
+    user({ id: 2001, username: 'alice2', email: 'ALICE@example.com', serverIdentifier: 'server-b', share: SHARE }),
+    user({ id: 2001, username: 'alice', serverIdentifier: homeServerIdentifier('primary') }),
+  ]);
+
+  assert.equal(profile.key, 'email:alice@example.com');
+  assert.deepEqual(profile.ids, [2001]);
+  assert.deepEqual(profile.emails, ['alice@example.com']);
+  assert.deepEqual(
+    profile.servers.map((server) => server.serverIdentifier),
+    ['server-a', 'server-b']
+  );
+  assert.deepEqual(profile.homes, ['primary']);
+  assert.deepEqual(profile.conflicts, [{ field: 'username', values: ['alice', 'alice2'] }]);
+});
@@ -0,0 +1,237 @@
+import type { PlexIdentityConflict, PlexUserAccess, PlexUserProfile } from './types.js';
+
+export function identityKeys(user: Pick<PlexUserAccess, 'uuid' | 'email' | 'id'>): string[] {
+  const keys: string[] = [];
+  if (user.uuid) {
+    keys.push(`uuid:${user.uuid.toLowerCase()}`);
+  }
+  if (user.email) {
+    keys.push(`email:${user.email.toLowerCase()}`);
+  }
+  if (user.id !== null) {
+    keys.push(`id:${user.id}`);
+  }
+  return keys;
+}
+
+/**
+ * Keys that link rows across servers. Share rows and Plex Home rows carry plex.tv account
+ * ids, but ids on other rows without a share come from a server's local /accounts list
+ * (0 for the system account, 1 for the owner on every server), so those are scoped to
+ * their server. Share-less rows (the owner, managed users, Home members) are linked across
+ * one account's servers and Home by name instead.
+ */
+export function linkKeys(user: PlexUserAccess): string[] {
+  const local = user.share === null && !isHomeRow(user);
+  const keys = identityKeys(user).map((key) =>
+    key.startsWith('id:') && local ? `id:${user.serverIdentifier}:${key.slice(3)}` : key
+  );
+  const name = user.username ?? user.title;
+  if (user.share === null && name) {
+    keys.push(`name:${user.accountLabel}:${name.toLowerCase()}`);
+  }
+  return keys;
+}
+
+function pushUnique<T>(values: T[], value: T | null): void {
+  if (value === null || value === undefined) {
+    return;
+  }
+  if (!values.includes(value)) {
+    values.push(value);
+  }
+}
+
+function distinctIgnoringCase(values: string[]): string[] {
+  const seen = new Map<string, string>();
+  for (const value of values) {
+    const key = value.toLowerCase();
+    if (!seen.has(key)) {
+      seen.set(key, value);
+    }
+  }
+  return Array.from(seen.values());
+}
+
+/**
+ * Groups per-server access rows by person. Rows are linked when they share a uuid,
+ * email (case-insensitive) or plex.tv account id (see linkKeys), transitively. Emails are compared as
+ * written: Plex treats plus-tagged and dotted Gmail variants as separate accounts, so lookups
+ * report those as normalized matches (userQuery.ts) instead of merging them here.
+ */
+export function groupUserRows(users: PlexUserAccess[]): PlexUserAccess[][] {
+  const parent = users.map((_, index) => index);
+  const find = (index: number): number => {
+    let root = index;
+    while (parent[root] !== root) {
+      root = parent[root] as number;
+    }
+    parent[index] = root;
+    return root;
+  };
+
+  const owners = new Map<string, number>();
+  users.forEach((user, index) => {
+    for (const key of linkKeys(user)) {
+      const owner = owners.get(key);
+      if (owner === undefined) {
+        owners.set(key, index);
+      } else {
+        const a = find(owner);
+        const b = find(index);
+        if (a !== b) {
+          parent[b] = a;
+        }
+      }
+    }
+  });
+
+  const groups = new Map<number, PlexUserAccess[]>();
+  users.forEach((user, index) => {
+    const root = find(index);
+    const group = groups.get(root);
+    if (group) {
+      group.push(user);
+    } else {
+      groups.set(root, [user]);
+    }
+  });
+
+  return Array.from(groups.values());
+}
+
+/**
+ * Collapses rows describing one person on one server (for example the /accounts row and
+ * the shared_servers row) into a single row, filling missing fields from later rows.
+ */
+export function mergeUserRows(rows: PlexUserAccess[]): PlexUserAccess {
+  const [first, ...rest] = rows;
+  if (!first) {
+    throw new Error('Cannot merge an empty group of user rows');
+  }
+  const merged: PlexUserAccess = { ...first };
+  for (const row of rest) {
+    merged.id ??= row.id;
+    merged.uuid ??= row.uuid;
+    merged.username ??= row.username;
+    merged.title ??= row.title;
+    merged.email ??= row.email;
+    merged.restricted ??= row.restricted;
+    merged.home ??= row.home;
+    merged.guest ??= row.guest;
+    merged.canInvite ??= row.canInvite;
+    merged.share ??= row.share;
+  }
+  return merged;
+}
+
+function sameAccount(a: PlexUserAccess, b: PlexUserAccess): boolean {
+  if (a.id !== null && b.id !== null && a.id !== b.id) {
+    return false;
+  }
+  if (a.uuid && b.uuid && a.uuid.toLowerCase() !== b.uuid.toLowerCase()) {
+    return false;
+  }
+  if ((a.id !== null && a.id === b.id) || (a.uuid && b.uuid)) {
+    return true;
+  }
+  if (a.id !== null || b.id !== null || a.uuid || b.uuid) {
+    return false;
+  }
+  if (a.email || b.email) {
+    return Boolean(a.email && b.email && a.email.toLowerCase() === b.email.toLowerCase());
+  }
+  const name = (row: PlexUserAccess) => (row.username ?? row.title ?? '').toLowerCase();
+  return name(a) !== '' && name(a) === name(b);
+}
+
+/**
+ * Pairs the rows one server reports for the same account (the /accounts row and the
+ * shared_servers row) by exact id or uuid, and merges each pair. Rows whose id or uuid
+ * differ are never merged; rows without either fall back to email, then username.
+ */
+export function pairAccountRows(rows: PlexUserAccess[]): PlexUserAccess[] {
+  const groups: PlexUserAccess[][] = [];
+  for (const row of rows) {
+    const group = groups.find((candidates) => candidates.every((candidate) => sameAccount(candidate, row)));
+    if (group) {
+      group.push(row);
+    } else {
+      groups.push([row]);
+    }
+  }
+  return groups.map(mergeUserRows);
+}
+
+export function groupUserIdentities(users: PlexUserAccess[]): PlexUserProfile[] {
+  return groupUserRows(users).map(buildProfile);
+}
+
+export function homeServerIdentifier(accountLabel: string): string {
+  return `home:${accountLabel}`;
+}
+
+/** True for Plex Home member rows, which sit on the `home:<accountLabel>` pseudo server. */
+export function isHomeRow(user: PlexUserAccess): boolean {
+  return user.serverIdentifier === homeServerIdentifier(user.accountLabel);
+}
+
+export function buildProfile(rows: PlexUserAccess[]): PlexUserProfile {
+  const profile: PlexUserProfile = {
+    key: '',
+    ids: [],
+    uuids: [],
+    emails: [],
+    usernames: [],
+    titles: [],
+    accountLabels: [],
+    servers: [],
+    homes: [],
+    conflicts: [],
+  };
+
+  const seenServers = new Set<string>();
+  for (const row of rows) {
+    pushUnique(profile.ids, row.id);
+    pushUnique(profile.uuids, row.uuid);
+    pushUnique(profile.emails, row.email);
+    pushUnique(profile.usernames, row.username);
+    pushUnique(profile.titles, row.title);
+    pushUnique(profile.accountLabels, row.accountLabel);
+
+    if (isHomeRow(row)) {
+      pushUnique(profile.homes, row.accountLabel);
+      continue;
+    }
+    const serverKey = `${row.serverIdentifier}:${row.accountLabel}`;
+    if (!seenServers.has(serverKey)) {
+      seenServers.add(serverKey);
+      profile.servers.push({
+        serverIdentifier: row.serverIdentifier,
+        serverName: row.serverName,
+        accountLabel: row.accountLabel,
+        restricted: row.restricted,
+        home: row.home,
+        guest: row.guest,
+        canInvite: row.canInvite,
+      });
+    }
+  }
+
+  profile.emails = distinctIgnoringCase(profile.emails);
+  const first = rows[0];
+  profile.key = first ? linkKeys(first)[0] ?? `row:${first.serverIdentifier}:${first.username ?? 'unknown'}` : 'unknown';
+
+  const conflicts: PlexIdentityConflict[] = [];
+  const usernames = distinctIgnoringCase(profile.usernames);
+  if (usernames.length > 1) {
+    conflicts.push({ field: 'username', values: usernames });
+  }
+  const titles = distinctIgnoringCase(profile.titles);
+  if (titles.length > 1) {
+    conflicts.push({ field: 'title', values: titles });
+  }
+  profile.conflicts = conflicts;
+
+  return profile;
+}
@@ -1,15 +1,108 @@
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { mkdir, writeFile } from 'fs/promises';
+import { basename, join, resolve } from 'path';
 import { z } from 'zod';
 import { Logger } from './logger.js';
 import type { LogLevel } from './logger.js';
-import { PlexAccountManager } from './plexManager.js';
-import type { ConfigAccount } from './types.js';
+import { PlexAccountManager, sharedLibraryTitles } from './plexManager.js';
+import type {
+  AccessDiffOptions,
+  AccessInventoryOptions,
+  AccessMatrixOptions,
+  BulkLookupOptions,
+  DiscoveryReport,
+  HomeUsersOptions,
+  InactiveUsersOptions,
+  ManagerOptions,
+  NowPlayingOptions,
+  RevokeAccessOptions,
+  SearchOptions,
+  ShareServerOptions,
+  SwitchHomeUserOptions,
+} from './plexManager.js';
+import { SnapshotStore } from './snapshotStore.js';
+import { TokenStore } from './tokenStore.js';
+import { EXPORT_FILE_EXTENSIONS, renderAccessExport, toExportRow } from './accessExport.js';
+import type { TokenHealth } from './tokenHealth.js';
+import { AccessHistory } from './accessHistory.js';
+import type { AccessDiffEntry, AccessHistoryOptions } from './accessHistory.js';
+import { PlexClient } from './plexClient.js';
+import type { ShareSettings } from './plexClient.js';
+import { axiosTransport, createRecordingTransport, createReplayTransport } from './transport.js';
+import type { PlexTransport } from './transport.js';
+import { startFakePlexServer } from './fakePlexServer.js';
+import type { FakePlexServerHandle } from './fakePlexServer.js';
+import { DEFAULT_RETRY_POLICY } from './resilience.js';
+import type { ConfigAccount, PlexDiagnostic, PlexShareDetails, PlexStreamDecision, PlexUserProfile } from './types.js';
 
 const logLevelEnum = z.enum(['debug', 'info', 'warn', 'error']);
 
 export const configSchema = z.object({
   log_level: logLevelEnum.default('info'),
   cache_ttl_seconds: z.number().int().min(30).max(3600).default(300),
+  plex_api_base_url: z
+    .string()
+    .url()
+    .default('https://plex.tv')
+    .describe('Base URL of the plex.tv API. Override to point at a proxy or a local stand-in.'),
+  transport_mode: z
+    .enum(['live', 'record', 'replay'])
+    .default('live')
+    .describe('live sends real requests; record also saves every response to fixtures_path; replay serves responses from fixtures_path only.'),
+  fixtures_path: z.string().optional().describe('JSON fixture file used by the record and replay transport modes.'),
+  fake_server_port: z
+    .number()
+    .int()
+    .min(1)
+    .max(65535)
+    .optional()
+    .describe('When set, starts a local fake Plex backend on this port and points the plex.tv base URL at it.'),
+  retry_max_attempts: z.number().int().min(0).max(10).default(3).describe('Retries for failed idempotent Plex requests.'),
+  retry_base_delay_ms: z.number().int().min(50).max(10000).default(500),
+  circuit_breaker_threshold: z
+    .number()
+    .int()
+    .min(1)
+    .max(20)
+    .default(3)
+    .describe('Consecutive failures after which a host is skipped for the cooldown.'),
+  circuit_breaker_cooldown_seconds: z.number().int().min(5).max(3600).default(60),
+  discovery_concurrency: z.number().int().min(1).max(32).default(4),
+  discovery_timeout_seconds: z.number().int().min(5).max(600).default(60),
+  connection_preference: z
+    .array(z.enum(['local', 'remote', 'relay']))
+    .min(1)
+    .default(['local', 'remote', 'relay'])
+    .describe('Connection types to try, most preferred first. Types left out are never used.'),
+  connection_https_only: z.boolean().default(false).describe('When true, only HTTPS server connections are used.'),
+  history_path: z
+    .string()
+    .optional()
+    .describe('Optional JSON file used to keep timestamped access snapshots for plex_access_diff.'),
+  history_max_snapshots: z.number().int().min(1).max(1000).default(100),
+  export_dir: z
+    .string()
+    .optional()
+    .describe('Optional local directory that plex_export_access writes files into when write_to_file is true.'),
+  snapshot_path: z
+    .string()
+    .optional()
+    .describe('Optional JSON file used to persist server and user snapshots across restarts.'),
+  token_health_interval_seconds: z
+    .number()
+    .int()
+    .max(86400)
+    .refine((value) => value === 0 || value >= 60, 'Use 0 to disable or an interval of at least 60 seconds')
+    .default(0)
+    .describe('When above 0, account tokens are re-validated in the background at this interval. 0 disables the monitor.'),
+  token_store_path: z
+    .string()
+    .optional()
+    .describe('Optional encrypted file holding account tokens. Accounts registered through the PIN flow are saved here.'),
+  token_store_key_env: z
+    .string()
+    .default('PLEX_TOKEN_STORE_KEY')
+    .describe('Environment variable holding the passphrase or key used to encrypt the token store.'),
   accounts: z
     .array(
       z.object({
@@ -24,16 +117,228 @@ export const configSchema = z.object({
 type ServerConfig = z.infer<typeof configSchema>;
 
 const lookupShape = {
-  query: z.string().min(1, 'Search query is required').describe('Email, username, or partial name to search for.'),
+  query: z
+    .string()
+    .default('')
+    .describe(
+      'Email, username, or partial name to search for. Supports field clauses such as email:alice@x.com, username:/^bob/, title:"Bob B", id:2001, domain:ourcompany.com, plus filters server:"Basement", account:secondary, restricted:true, home:, guest:, can_invite:, owned:. May be empty when at least one filter is given.'
+    ),
+  mode: z
+    .enum(['fuzzy', 'exact', 'prefix', 'regex', 'domain'])
+    .optional()
+    .describe(
+      'How text clauses match (default fuzzy). domain returns every user whose email is on the given domain, e.g. ourcompany.com. Values written as /pattern/ are always regular expressions.'
+    ),
+  server: z.string().optional().describe('Only include users on this server (friendly name or machineIdentifier).'),
+  account_label: z.string().optional().describe('Only include users on servers reached through this account.'),
+  restricted: z.boolean().optional().describe('Filter by the restricted (managed) flag.'),
+  home: z.boolean().optional().describe('Filter by Plex Home membership.'),
+  guest: z.boolean().optional().describe('Filter by the guest flag.'),
+  can_invite: z.boolean().optional().describe('Filter by the canInvite flag.'),
+  owned: z
+    .boolean()
+    .optional()
+    .describe('true for servers owned by the account, false for servers shared with it.'),
   max_results: z.number().int().min(1).max(50).optional().describe('Max number of matches to return (default 25).'),
   refresh: z.boolean().optional().describe('When true, bypass caches and fetch fresh data from Plex.'),
 };
 const lookupSchema = z.object(lookupShape);
 type LookupInput = z.infer<typeof lookupSchema>;
 
+const bulkLookupShape = {
+  identifiers: z
+    .array(z.string().min(1))
+    .min(1)
+    .max(500)
+    .describe('Emails, usernames, or names to check, one per entry.'),
+  fuzzy_fallback: z
+    .boolean()
+    .optional()
+    .describe('When true, inputs without an exact match get fuzzy suggestions. They are never counted as found.'),
+  refresh: z.boolean().optional().describe('When true, bypass caches and fetch fresh data from Plex.'),
+};
+const bulkLookupSchema = z.object(bulkLookupShape);
+type BulkLookupInput = z.infer<typeof bulkLookupSchema>;
+
+const profileShape = {
+  query: z.string().min(1, 'Search query is required').describe('Email, username, uuid, or partial name identifying the person.'),
+  max_results: z.number().int().min(1).max(50).optional().describe('Max number of profiles to return (default 25).'),
+  refresh: z.boolean().optional().describe('When true, bypass caches and fetch fresh data from Plex.'),
+};
+const profileSchema = z.object(profileShape);
+type ProfileInput = z.infer<typeof profileSchema>;
+
+const libraryAccessShape = {
+  query: z.string().min(1, 'Search query is required').describe('Email, username, or partial name to search for.'),
+  server: z.string().optional().describe('Optional server friendly name or machineIdentifier to restrict results to.'),
+  max_results: z.number().int().min(1).max(50).optional().describe('Max number of matches to return (default 25).'),
+  refresh: z.boolean().optional().describe('When true, bypass caches and fetch fresh data from Plex.'),
+};
+const libraryAccessSchema = z.object(libraryAccessShape);
+type LibraryAccessInput = z.infer<typeof libraryAccessSchema>;
+
+const shareServerShape = {
+  account_label: z.string().min(1, 'Account label is required').describe('Label of the configured account that owns the server.'),
+  machine_identifier: z.string().min(1, 'Server machineIdentifier is required').describe('machineIdentifier of the server to share.'),
+  email: z.string().email('A valid email address is required').describe('Email address to invite.'),
+  libraries: z
+    .array(z.string().min(1))
+    .min(1, 'Omit libraries to share every library')
+    .optional()
+    .describe('Library titles, keys, or section ids to share. Omit to share every library on the server.'),
+  allow_sync: z.boolean().optional().describe('Allow the invited user to download/sync media.'),
+  filter_movies: z.string().optional().describe('Optional Plex content filter applied to movie libraries.'),
+  filter_television: z.string().optional().describe('Optional Plex content filter applied to TV libraries.'),
+  filter_music: z.string().optional().describe('Optional Plex content filter applied to music libraries.'),
+  confirm: z
+    .boolean()
+    .optional()
+    .describe('Must be true to actually create the share. When omitted or false, only a dry-run preview is returned.'),
+};
+const shareServerSchema = z.object(shareServerShape);
+type ShareServerInput = z.infer<typeof shareServerSchema>;
+
+const revokeAccessShape = {
+  user_id: z.number().int().describe('Plex user id of the member, as returned by plex_lookup_user.'),
+  server: z
+    .string()
+    .optional()
+    .describe('Server friendly name or machineIdentifier. Omit to revoke the user from every server they are shared on.'),
+  confirm: z
+    .boolean()
+    .optional()
+    .describe('Must be true to actually remove the share. When omitted or false, only a dry-run preview is returned.'),
+};
+const revokeAccessSchema = z.object(revokeAccessShape);
+type RevokeAccessInput = z.infer<typeof revokeAccessSchema>;
+
+const updateShareShape = {
+  user_id: z.number().int().describe('Plex user id of the member, as returned by plex_lookup_user.'),
+  server: z.string().min(1, 'Server is required').describe('Server friendly name or machineIdentifier of the share to modify.'),
+  libraries: z
+    .array(z.string().min(1))
+    .min(1, 'At least one library is required')
+    .describe('Complete set of library titles, keys, or section ids the user should have after the change.'),
+  confirm: z
+    .boolean()
+    .optional()
+    .describe('Must be true to actually update the share. When omitted or false, only a dry-run preview is returned.'),
+};
+const updateShareSchema = z.object(updateShareShape);
+type UpdateShareInput = z.infer<typeof updateShareSchema>;
+
+const accessDiffShape = {
+  from: z
+    .string()
+    .optional()
+    .describe('Snapshot id or ISO timestamp to compare from. The latest snapshot at or before the timestamp is used.'),
+  since_days: z
+    .number()
+    .min(0)
+    .optional()
+    .describe('Compare from the snapshot recorded this many days ago. Ignored when from is provided.'),
+  to: z
+    .string()
+    .optional()
+    .describe('Snapshot id or ISO timestamp to compare to. Omit to compare against live data.'),
+  refresh: z.boolean().optional().describe('When comparing against live data, bypass caches and fetch fresh data from Plex.'),
+};
+const accessDiffSchema = z.object(accessDiffShape);
+type AccessDiffInput = z.infer<typeof accessDiffSchema>;
+
+const accessMatrixShape = {
+  missing_from: z
+    .string()
+    .optional()
+    .describe('Only show people with no access to this server (friendly name or machineIdentifier).'),
+  server_count: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe('Only show people present on exactly this many distinct servers.'),
+  refresh: z.boolean().optional().describe('When true, bypass caches and fetch fresh data from Plex.'),
+};
+const accessMatrixSchema = z.object(accessMatrixShape);
+type AccessMatrixInput = z.infer<typeof accessMatrixSchema>;
+
+const inactiveUsersShape = {
+  days: z
+    .number()
+    .int()
+    .min(1)
+    .default(90)
+    .describe('Report shared users with no playback in this many days (default 90).'),
+  server: z.string().optional().describe('Optional server friendly name or machineIdentifier to check.'),
+  refresh: z.boolean().optional().describe('When true, bypass caches and fetch fresh data from Plex.'),
+};
+const inactiveUsersSchema = z.object(inactiveUsersShape);
+type InactiveUsersInput = z.infer<typeof inactiveUsersSchema>;
+
+const nowPlayingShape = {
+  server: z.string().optional().describe('Optional server friendly name or machineIdentifier to check.'),
+  refresh: z.boolean().optional().describe('When true, bypass caches and fetch fresh data from Plex.'),
+};
+const nowPlayingSchema = z.object(nowPlayingShape);
+type NowPlayingInput = z.infer<typeof nowPlayingSchema>;
+
+const exportAccessShape = {
+  format: z.enum(['csv', 'jsonl', 'markdown']).default('csv').describe('Output format (default csv).'),
+  account_label: z.string().optional().describe('Optional account label to restrict the export to.'),
+  server: z.string().optional().describe('Optional server friendly name or machineIdentifier to restrict the export to.'),
+  write_to_file: z
+    .boolean()
+    .optional()
+    .describe('When true, writes the export into the configured export_dir and returns the path instead of the content.'),
+  file_name: z
+    .string()
+    .optional()
+    .describe('File name to use with write_to_file. Defaults to plex-access-<timestamp> with the format extension. Existing files are never overwritten.'),
+  refresh: z.boolean().optional().describe('When true, bypass caches and fetch fresh data from Plex.'),
+};
+const exportAccessSchema = z.object(exportAccessShape);
+type ExportAccessInput = z.infer<typeof exportAccessSchema>;
+
+const relabelAccountShape = {
+  label: z.string().min(1).describe('Current label of a stored or runtime-registered account.'),
+  new_label: z.string().min(1).describe('New label for the account.'),
+};
+const relabelAccountSchema = z.object(relabelAccountShape);
+type RelabelAccountInput = z.infer<typeof relabelAccountSchema>;
+
+const removeAccountShape = {
+  label: z.string().min(1).describe('Label of a stored or runtime-registered account to remove.'),
+};
+const removeAccountSchema = z.object(removeAccountShape);
+type RemoveAccountInput = z.infer<typeof removeAccountSchema>;
+
+const homeUsersShape = {
+  account_label: z.string().optional().describe('Optional account label whose Plex Home should be listed.'),
+  refresh: z.boolean().optional().describe('When true, bypass caches and fetch fresh data from Plex.'),
+};
+const homeUsersSchema = z.object(homeUsersShape);
+type HomeUsersInput = z.infer<typeof homeUsersSchema>;
+
+const switchHomeUserShape = {
+  account_label: z.string().min(1).describe('Account whose Plex Home contains the member.'),
+  user: z.string().min(1).describe('Home member id, uuid, username, title, or email.'),
+  pin: z.string().optional().describe("The member's PIN, required for protected members."),
+  label: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Label for the registered account (default <account_label>-home-<member id>).'),
+};
+const switchHomeUserSchema = z.object(switchHomeUserShape);
+type SwitchHomeUserInput = z.infer<typeof switchHomeUserSchema>;
+
 const statusShape = {
   refresh: z.boolean().optional().describe('When true, refresh cached server and user data.'),
   include_user_count: z.boolean().optional().describe('When true, count distinct users across servers.'),
+  revalidate: z
+    .boolean()
+    .optional()
+    .describe('When true, re-check every account token now instead of returning the cached token health.'),
 };
 const statusSchema = z.object(statusShape);
 type StatusInput = z.infer<typeof statusSchema>;
@@ -43,6 +348,11 @@ const authUrlShape = {
     .string()
     .optional()
     .describe('Optional Plex client identifier to associate with the login request. If omitted, a random identifier is generated.'),
+  account_label: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Optional label for the account. When set, the token is registered as a live account once the PIN is authorized.'),
 };
 const authUrlSchema = z.object(authUrlShape);
 type AuthUrlInput = z.infer<typeof authUrlSchema>;
@@ -50,10 +360,32 @@ type AuthUrlInput = z.infer<typeof authUrlSchema>;
 const pollShape = {
   pin_id: z.number().int().describe('Numeric Plex PIN identifier returned by plex_generate_auth_url.'),
   client_identifier: z.string().describe('Client identifier returned alongside the authorization URL.'),
+  account_label: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Label to register the authorized token under. Defaults to the label given to plex_generate_auth_url.'),
 };
 const pollSchema = z.object(pollShape);
 type PollInput = z.infer<typeof pollSchema>;
 
+const auditAccessPromptShape = {
+  server: z.string().optional().describe('Optional server friendly name or machineIdentifier to focus the audit on.'),
+  since_days: z.string().optional().describe('How many days back to diff access against (default 7).'),
+};
+
+const offboardUserPromptShape = {
+  email: z.string().min(1).describe('Email address of the person to offboard.'),
+};
+
+const addAccountPromptShape = {
+  label: z.string().min(1).describe('Label to register the new Plex account under.'),
+};
+
+// HTTP transports call createServer once per session, but a port can only be bound once,
+// so every session shares the fake backend started for its port.
+const fakeServers = new Map<number, FakePlexServerHandle>();
+
 export default function createServer({
   config,
 }: {
@@ -71,45 +403,115 @@ export default function createServer({
   });
 
   const logger = new Logger(config.log_level as LogLevel, 'plex-mcp');
+
+  let apiBaseUrl = config.plex_api_base_url;
+  if (config.fake_server_port) {
+    let fake = fakeServers.get(config.fake_server_port);
+    if (!fake) {
+      fake = startFakePlexServer(config.fake_server_port, logger);
+      fakeServers.set(config.fake_server_port, fake);
+    }
+    apiBaseUrl = fake.url;
+    if (accountConfigs.length === 0) {
+      accountConfigs.push(...fake.dataset.accounts.map((account) => ({ label: account.label, token: account.token })));
+    }
+  }
+  const client = new PlexClient({
+    apiBaseUrl,
+    transport: createTransport(config, logger),
+    retry: {
+      ...DEFAULT_RETRY_POLICY,
+      maxRetries: config.retry_max_attempts,
+      baseDelayMs: config.retry_base_delay_ms,
+    },
+    circuitBreaker: {
+      failureThreshold: config.circuit_breaker_threshold,
+      cooldownMs: config.circuit_breaker_cooldown_seconds * 1000,
+    },
+  });
+
   logger.info('Starting Plex MCP Account Finder', {
     accounts: accountConfigs.length,
     cache_ttl_seconds: config.cache_ttl_seconds,
     log_level: config.log_level,
+    snapshot_path: config.snapshot_path,
+    plex_api_base_url: apiBaseUrl,
+    transport_mode: config.transport_mode,
   });
 
   if (accountConfigs.length === 0) {
     logger.warn('No Plex accounts configured. Tools will operate in read-only/degraded mode until tokens are provided.');
   }
 
-  const manager = new PlexAccountManager(
-    accountConfigs,
-    { cacheTtlMs: config.cache_ttl_seconds * 1000 },
-    logger
-  );
+  const managerOptions: ManagerOptions = {
+    cacheTtlMs: config.cache_ttl_seconds * 1000,
+    client,
+    concurrency: config.discovery_concurrency,
+    discoveryTimeoutMs: config.discovery_timeout_seconds * 1000,
+    connectionPolicy: {
+      preference: config.connection_preference,
+      httpsOnly: config.connection_https_only,
+    },
+    healthCheckIntervalMs: config.token_health_interval_seconds * 1000,
+  };
+  if (config.snapshot_path) {
+    managerOptions.snapshotStore = new SnapshotStore(config.snapshot_path, logger);
+  }
+  const historyOptions: AccessHistoryOptions = { maxSnapshots: config.history_max_snapshots };
+  if (config.history_path) {
+    historyOptions.filePath = config.history_path;
+  }
+  managerOptions.accessHistory = new AccessHistory(historyOptions, logger);
+  if (config.token_store_path) {
+    const secret = process.env[config.token_store_key_env];
+    if (!secret) {
+      throw new Error(`token_store_path is set but environment variable ${config.token_store_key_env} is empty`);
+    }
+    managerOptions.tokenStore = new TokenStore(config.token_store_path, secret, logger);
+  }
+
+  const manager = new PlexAccountManager(accountConfigs, managerOptions, logger);
+  manager.startHealthMonitor();
 
   const server = new McpServer({
     name: 'plex-account-finder',
     version: '0.1.0',
   });
 
-  registerTools(server, manager, logger);
+  registerTools(server, manager, logger, config.export_dir);
+  registerResources(server, manager, logger);
+  registerPrompts(server);
+  manager.onInventoryChanged(() => server.sendResourceListChanged());
+  server.server.onclose = () => manager.stopHealthMonitor();
 
   return server.server;
 }
 
-function registerTools(server: McpServer, manager: PlexAccountManager, logger: Logger) {
+function createTransport(config: ServerConfig, logger: Logger): PlexTransport {
+  if (config.transport_mode === 'live') {
+    return axiosTransport;
+  }
+  if (!config.fixtures_path) {
+    throw new Error(`fixtures_path is required when transport_mode is ${config.transport_mode}`);
+  }
+  return config.transport_mode === 'record'
+    ? createRecordingTransport(axiosTransport, config.fixtures_path, logger)
+    : createReplayTransport(config.fixtures_path, logger);
+}
+
+function registerTools(server: McpServer, manager: PlexAccountManager, logger: Logger, exportDir: string | undefined) {
   const toolsLogger = logger.child('tools');
 
   server.registerTool(
     'plex_status',
     {
       title: 'Plex Server Status',
-      description: 'Validates configured Plex accounts and summarizes server availability.',
+      description: 'Reports token health for configured Plex accounts and summarizes server availability.',
       inputSchema: statusShape,
     },
     async (input: StatusInput) => {
       toolsLogger.info('Status tool invoked', input ?? {});
-      const validation = await manager.validateAccounts();
+      const health = await manager.getTokenHealth(Boolean(input?.revalidate));
       const servers = await manager.getServers(Boolean(input?.refresh));
 
       let userCount: number | undefined;
@@ -117,17 +519,45 @@ function registerTools(server: McpServer, manager: PlexAccountManager, logger: L
         const users = await manager.getUsersAcrossServers(Boolean(input?.refresh));
         userCount = users.length;
       }
+      const discovery = manager.getDiscoveryReport();
 
       const summaryLines: string[] = [
         `Accounts configured: ${manager.getAccountCount()}`,
         `Servers discovered: ${servers.length}`,
-        `Accounts valid: ${validation.filter((v) => v.valid).length}/${validation.length}`,
+        `Accounts valid: ${health.filter((entry) => entry.status === 'valid').length}/${health.length}`,
       ];
 
+      for (const entry of health) {
+        summaryLines.push(`- ${formatTokenHealth(entry)}`);
+      }
+
+      for (const server of servers) {
+        summaryLines.push(
+          `- ${server.friendlyName} (account: ${server.accountLabel}): ${server.connectionType} ${server.uri} [${server.latencyMs}ms]`
+        );
+      }
+
       if (typeof userCount === 'number') {
         summaryLines.push(`Distinct users found: ${userCount}`);
       }
 
+      const snapshot = manager.getSnapshotStatus();
+      if (snapshot) {
+        const age = snapshot.ageSeconds === null ? 'empty' : `${snapshot.ageSeconds}s old`;
+        summaryLines.push(`Snapshot: ${snapshot.path} (${age})`);
+      }
+
+      const requests = manager.getRequestStats();
+      summaryLines.push(
+        `Requests: ${requests.requests} (retries: ${requests.retries}, failures: ${requests.failures}, rate limited: ${requests.rateLimited}, short-circuited: ${requests.shortCircuited})`
+      );
+      for (const breaker of requests.breakers.filter((entry) => entry.state !== 'closed')) {
+        const cause = breaker.lastError ? ` (last error: ${breaker.lastError})` : '';
+        summaryLines.push(`Circuit ${breaker.state} for ${breaker.host} until ${breaker.retryAt}${cause}`);
+      }
+
+      summaryLines.push(...formatDiscoveryWarning(discovery));
+
       return {
         content: [
           {
@@ -138,7 +568,7 @@ function registerTools(server: McpServer, manager: PlexAccountManager, logger: L
         structuredContent: {
           status: 'ok',
           server_time: new Date().toISOString(),
-          accounts: validation,
+          accounts: health,
           servers: servers.map((server) => ({
             name: server.friendlyName,
             machineIdentifier: server.machineIdentifier,
@@ -147,8 +577,18 @@ function registerTools(server: McpServer, manager: PlexAccountManager, logger: L
             platform: server.platform,
             accountLabel: server.accountLabel,
             owned: server.owned,
+            uri: server.uri,
+            connectionType: server.connectionType,
+            latencyMs: server.latencyMs,
           })),
           user_count: userCount,
+          snapshot,
+          discovery,
+          requests,
+          errors: [
+            ...health.flatMap((entry) => (entry.status === 'valid' ? [] : tokenHealthDiagnostics(entry))),
+            ...(discovery?.errors ?? []),
+          ],
         } as Record<string, unknown>,
       };
     }
@@ -158,11 +598,108 @@ function registerTools(server: McpServer, manager: PlexAccountManager, logger: L
     'plex_lookup_user',
     {
       title: 'Plex User Lookup',
-      description: 'Search for Plex user access across all configured servers using fuzzy matching.',
+      description:
+        'Search for Plex user access across all configured servers using fuzzy matching, optionally narrowed by server, account, flags, and server ownership. With filters and no query, lists every matching user.',
       inputSchema: lookupShape,
     },
     async (input: LookupInput) => {
-      toolsLogger.info('Lookup tool invoked', {
+      toolsLogger.info('Lookup tool invoked', input ?? {});
+
+      const searchOptions: SearchOptions = {};
+      if (typeof input.max_results === 'number') {
+        searchOptions.maxResults = input.max_results;
+      }
+      if (typeof input.refresh === 'boolean') {
+        searchOptions.refresh = input.refresh;
+      }
+      if (input.mode) {
+        searchOptions.mode = input.mode;
+      }
+      if (input.server) {
+        searchOptions.server = input.server;
+      }
+      if (input.account_label) {
+        searchOptions.accountLabel = input.account_label;
+      }
+      if (typeof input.restricted === 'boolean') {
+        searchOptions.restricted = input.restricted;
+      }
+      if (typeof input.home === 'boolean') {
+        searchOptions.home = input.home;
+      }
+      if (typeof input.guest === 'boolean') {
+        searchOptions.guest = input.guest;
+      }
+      if (typeof input.can_invite === 'boolean') {
+        searchOptions.canInvite = input.can_invite;
+      }
+      if (typeof input.owned === 'boolean') {
+        searchOptions.owned = input.owned;
+      }
+
+      const result = await manager.searchUsers(input.query, searchOptions);
+      const discovery = manager.getDiscoveryReport();
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: [formatLookupSummary(result), ...formatDiscoveryWarning(discovery)].join('\n'),
+          },
+        ],
+        structuredContent: { ...result, discovery, errors: discovery?.errors ?? [] } as unknown as Record<string, unknown>,
+      };
+    }
+  );
+
+  server.registerTool(
+    'plex_bulk_lookup',
+    {
+      title: 'Plex Bulk User Lookup',
+      description:
+        'Checks a list of emails or usernames against one user snapshot and returns, per input, the best match, its confidence, and the servers and Plex Homes that person belongs to, plus the inputs with no access anywhere.',
+      inputSchema: bulkLookupShape,
+    },
+    async (input: BulkLookupInput) => {
+      toolsLogger.info('Bulk lookup tool invoked', {
+        identifiers: input.identifiers.length,
+        fuzzy_fallback: input.fuzzy_fallback,
+        refresh: input.refresh,
+      });
+
+      const options: BulkLookupOptions = {};
+      if (typeof input.fuzzy_fallback === 'boolean') {
+        options.fuzzyFallback = input.fuzzy_fallback;
+      }
+      if (typeof input.refresh === 'boolean') {
+        options.refresh = input.refresh;
+      }
+
+      const result = await manager.bulkLookup(input.identifiers, options);
+      const discovery = manager.getDiscoveryReport();
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: [formatBulkLookupSummary(result), ...formatDiscoveryWarning(discovery)].join('\n'),
+          },
+        ],
+        structuredContent: { ...result, discovery, errors: discovery?.errors ?? [] } as unknown as Record<string, unknown>,
+      };
+    }
+  );
+
+  server.registerTool(
+    'plex_user_profile',
+    {
+      title: 'Plex User Profile',
+      description:
+        'Consolidates a user into one identity record listing every server and account they can reach, their flags on each, and conflicting usernames or titles.',
+      inputSchema: profileShape,
+    },
+    async (input: ProfileInput) => {
+      toolsLogger.info('Profile tool invoked', {
         query: input.query,
         max_results: input.max_results,
         refresh: input.refresh,
@@ -176,110 +713,1289 @@ function registerTools(server: McpServer, manager: PlexAccountManager, logger: L
         searchOptions.refresh = input.refresh;
       }
 
-      const result = await manager.searchUsers(input.query, searchOptions);
+      const result = await manager.getUserProfiles(input.query, searchOptions);
+      const discovery = manager.getDiscoveryReport();
 
       return {
         content: [
           {
             type: 'text',
-            text: formatLookupSummary(result),
+            text: [formatProfileSummary(result), ...formatDiscoveryWarning(discovery)].join('\n'),
           },
         ],
-        structuredContent: result as unknown as Record<string, unknown>,
+        structuredContent: { ...result, discovery, errors: discovery?.errors ?? [] } as unknown as Record<string, unknown>,
       };
     }
   );
 
   server.registerTool(
-    'plex_generate_auth_url',
+    'plex_library_access',
     {
-      title: 'Generate Plex Authorization URL',
-      description: 'Creates a Plex authentication URL and PIN so you can authorize a new account.',
-      inputSchema: authUrlShape,
+      title: 'Plex Library Access',
+      description: 'Lists which libraries a user can see on each server, with sync and content filter settings from their share.',
+      inputSchema: libraryAccessShape,
     },
-    async (input: AuthUrlInput) => {
-      toolsLogger.info('Auth URL generation requested', {
-        has_custom_identifier: Boolean(input.client_identifier),
+    async (input: LibraryAccessInput) => {
+      toolsLogger.info('Library access tool invoked', {
+        query: input.query,
+        server: input.server,
+        max_results: input.max_results,
+        refresh: input.refresh,
       });
 
-      const result = await manager.generateAuthPin(input.client_identifier);
+      const options: { server?: string; maxResults?: number; refresh?: boolean } = {};
+      if (input.server) {
+        options.server = input.server;
+      }
+      if (typeof input.max_results === 'number') {
+        options.maxResults = input.max_results;
+      }
+      if (typeof input.refresh === 'boolean') {
+        options.refresh = input.refresh;
+      }
+
+      const result = await manager.getLibraryAccess(input.query, options);
+      const discovery = manager.getDiscoveryReport();
 
       return {
         content: [
           {
             type: 'text',
-            text: [
-              'Open the following URL in your browser and sign in to Plex to authorize access:',
-              result.authorizationUrl,
-              '',
-              `PIN ID: ${result.pin.id}`,
-              `Client Identifier: ${result.pin.clientIdentifier}`,
-              `PIN Code: ${result.pin.code}`,
-              `Expires At: ${result.pin.expiresAt}`,
-              '',
-              'After completing the login, run plex_check_auth_pin with the PIN ID and client identifier to retrieve the token.',
-            ].join('\n'),
+            text: [formatLibraryAccessSummary(result), ...formatDiscoveryWarning(discovery)].join('\n'),
           },
         ],
-        structuredContent: {
-          authorization_url: result.authorizationUrl,
-          pin: result.pin,
-        } as Record<string, unknown>,
+        structuredContent: { ...result, discovery, errors: discovery?.errors ?? [] } as unknown as Record<string, unknown>,
       };
     }
   );
 
   server.registerTool(
-    'plex_check_auth_pin',
+    'plex_share_server',
     {
-      title: 'Check Plex Authorization PIN',
-      description: 'Polls Plex for the status of an authorization PIN and returns the token when ready.',
-      inputSchema: pollShape,
+      title: 'Share Plex Server',
+      description:
+        'Shares a server\'s libraries with an email address. Returns a dry-run preview of the exact plex.tv request unless confirm is true.',
+      inputSchema: shareServerShape,
     },
-    async (input: PollInput) => {
-      toolsLogger.info('Auth PIN status requested', {
-        pin_id: input.pin_id,
+    async (input: ShareServerInput) => {
+      toolsLogger.info('Share server tool invoked', {
+        account_label: input.account_label,
+        machine_identifier: input.machine_identifier,
+        libraries: input.libraries?.length ?? 'all',
+        confirm: input.confirm,
+      });
+
+      const settings: ShareSettings = {};
+      if (typeof input.allow_sync === 'boolean') {
+        settings.allowSync = input.allow_sync;
+      }
+      if (input.filter_movies) {
+        settings.filterMovies = input.filter_movies;
+      }
+      if (input.filter_television) {
+        settings.filterTelevision = input.filter_television;
+      }
+      if (input.filter_music) {
+        settings.filterMusic = input.filter_music;
+      }
+
+      const options: ShareServerOptions = {
+        accountLabel: input.account_label,
+        machineIdentifier: input.machine_identifier,
+        email: input.email,
+        settings,
+        confirm: input.confirm === true,
+      };
+      if (input.libraries) {
+        options.libraries = input.libraries;
+      }
+
+      const result = await manager.shareServer(options);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formatShareServerSummary(result),
+          },
+        ],
+        structuredContent: { ...result, errors: [] } as unknown as Record<string, unknown>,
+      };
+    }
+  );
+
+  server.registerTool(
+    'plex_revoke_access',
+    {
+      title: 'Revoke Plex Access',
+      description:
+        'Removes a user\'s shared_servers entry on one or all servers. Returns a dry-run preview unless confirm is true.',
+      inputSchema: revokeAccessShape,
+    },
+    async (input: RevokeAccessInput) => {
+      toolsLogger.info('Revoke access tool invoked', {
+        user_id: input.user_id,
+        server: input.server,
+        confirm: input.confirm,
       });
 
-      const status = await manager.checkAuthPinStatus(input.pin_id, input.client_identifier);
-      const message = status.authToken
-        ? 'Authorization complete. Use the returned auth token as your Plex API token.'
-        : 'Authorization pending. Please complete the login flow in your browser.';
+      const options: RevokeAccessOptions = {
+        userId: input.user_id,
+        confirm: input.confirm === true,
+      };
+      if (input.server) {
+        options.server = input.server;
+      }
+
+      const result = await manager.revokeAccess(options);
+      const discovery = manager.getDiscoveryReport();
 
       return {
         content: [
           {
             type: 'text',
             text: [
-              `PIN ID: ${status.id}`,
-              `Client Identifier: ${status.clientIdentifier}`,
-              `Expires At: ${status.expiresAt}`,
-              `Auth Token Received: ${status.authToken ? 'yes' : 'no'}`,
-              '',
-              message,
+              formatShareChangeSummary(result, 'plex_revoke_access'),
+              ...formatDiscoveryWarning(discovery),
             ].join('\n'),
           },
         ],
-        structuredContent: {
-          pin: status,
-          message,
-        } as Record<string, unknown>,
+        structuredContent: { ...result, discovery, errors: discovery?.errors ?? [] } as unknown as Record<string, unknown>,
       };
     }
   );
-}
 
-function formatLookupSummary(result: Awaited<ReturnType<PlexAccountManager['searchUsers']>>): string {
-  if (result.matches.length === 0) {
-    return 'No matching Plex users were found.';
-  }
+  server.registerTool(
+    'plex_update_share',
+    {
+      title: 'Update Plex Share Libraries',
+      description:
+        'Replaces the library set of an existing share for a user on a server. Returns a dry-run preview unless confirm is true.',
+      inputSchema: updateShareShape,
+    },
+    async (input: UpdateShareInput) => {
+      toolsLogger.info('Update share tool invoked', {
+        user_id: input.user_id,
+        server: input.server,
+        libraries: input.libraries.length,
+        confirm: input.confirm,
+      });
 
-  const lines = result.matches.map((match, index) => {
-    const user = match.user;
-    const identity = [user.username, user.email, user.title].filter(Boolean).join(' · ');
-    return `${index + 1}. ${identity || 'Unknown'} — server: ${user.serverName} (account: ${user.accountLabel}) [score=${match.score.toFixed(3)}]`;
-  });
+      const result = await manager.updateShareLibraries({
+        userId: input.user_id,
+        server: input.server,
+        libraries: input.libraries,
+        confirm: input.confirm === true,
+      });
+      const discovery = manager.getDiscoveryReport();
 
-  lines.push('', `Matches returned: ${result.matches.length}`, `Total users searched: ${result.totalSearched}`);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: [
+              formatShareChangeSummary(result, 'plex_update_share'),
+              ...formatDiscoveryWarning(discovery),
+            ].join('\n'),
+          },
+        ],
+        structuredContent: { ...result, discovery, errors: discovery?.errors ?? [] } as unknown as Record<string, unknown>,
+      };
+    }
+  );
+
+  server.registerTool(
+    'plex_access_diff',
+    {
+      title: 'Plex Access Diff',
+      description:
+        'Compares two recorded access snapshots, or a snapshot against live data, and reports added users, removed users and flag changes per server.',
+      inputSchema: accessDiffShape,
+    },
+    async (input: AccessDiffInput) => {
+      toolsLogger.info('Access diff tool invoked', input ?? {});
+
+      const options: AccessDiffOptions = {};
+      if (input.from) {
+        options.from = input.from;
+      }
+      if (typeof input.since_days === 'number') {
+        options.sinceDays = input.since_days;
+      }
+      if (input.to) {
+        options.to = input.to;
+      }
+      if (typeof input.refresh === 'boolean') {
+        options.refresh = input.refresh;
+      }
+
+      const result = await manager.diffAccess(options);
+      const discovery = result.to.id === 'live' ? manager.getDiscoveryReport() : null;
+      const errors = [...result.errors, ...(discovery?.errors ?? [])];
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: [formatAccessDiffSummary(result), ...formatDiscoveryWarning(discovery)].join('\n'),
+          },
+        ],
+        structuredContent: { ...result, discovery, errors } as unknown as Record<string, unknown>,
+      };
+    }
+  );
+
+  server.registerTool(
+    'plex_inactive_users',
+    {
+      title: 'Plex Inactive Users',
+      description:
+        'Finds shared users who have not played anything on a server within the given number of days, using each owned server\'s watch history. Users who have never played anything are listed first.',
+      inputSchema: inactiveUsersShape,
+    },
+    async (input: InactiveUsersInput) => {
+      toolsLogger.info('Inactive users tool invoked', input ?? {});
+
+      const options: InactiveUsersOptions = { days: input.days };
+      if (input.server) {
+        options.server = input.server;
+      }
+      if (typeof input.refresh === 'boolean') {
+        options.refresh = input.refresh;
+      }
+
+      const result = await manager.getInactiveUsers(options);
+      const discovery = manager.getDiscoveryReport();
+      const errors = [...result.errors, ...(discovery?.errors ?? [])];
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: [formatInactiveUsersSummary(result), ...formatDiscoveryWarning(discovery)].join('\n'),
+          },
+        ],
+        structuredContent: { ...result, discovery, errors } as unknown as Record<string, unknown>,
+      };
+    }
+  );
+
+  server.registerTool(
+    'plex_now_playing',
+    {
+      title: 'Plex Now Playing',
+      description:
+        'Shows who is streaming right now on every owned server across all accounts: user, title, player and device, direct play vs transcode, and bandwidth.',
+      inputSchema: nowPlayingShape,
+    },
+    async (input: NowPlayingInput) => {
+      toolsLogger.info('Now playing tool invoked', input ?? {});
+
+      const options: NowPlayingOptions = {};
+      if (input.server) {
+        options.server = input.server;
+      }
+      if (typeof input.refresh === 'boolean') {
+        options.refresh = input.refresh;
+      }
+
+      const result = await manager.getNowPlaying(options);
+      const discovery = manager.getDiscoveryReport();
+      const errors = [...result.errors, ...(discovery?.errors ?? [])];
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: [formatNowPlayingSummary(result), ...formatDiscoveryWarning(discovery)].join('\n'),
+          },
+        ],
+        structuredContent: { ...result, discovery, errors } as unknown as Record<string, unknown>,
+      };
+    }
+  );
+
+  server.registerTool(
+    'plex_access_matrix',
+    {
+      title: 'Plex Access Matrix',
+      description:
+        'Shows who is on which server: one row per deduplicated person, one column per server and owning account. Can filter to people missing from a server or present on exactly N servers.',
+      inputSchema: accessMatrixShape,
+    },
+    async (input: AccessMatrixInput) => {
+      toolsLogger.info('Access matrix tool invoked', input ?? {});
+
+      const options: AccessMatrixOptions = {};
+      if (input.missing_from) {
+        options.missingFrom = input.missing_from;
+      }
+      if (typeof input.server_count === 'number') {
+        options.serverCount = input.server_count;
+      }
+      if (typeof input.refresh === 'boolean') {
+        options.refresh = input.refresh;
+      }
+
+      const matrix = await manager.getAccessMatrix(options);
+      const discovery = manager.getDiscoveryReport();
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: [formatAccessMatrix(matrix), ...formatDiscoveryWarning(discovery)].join('\n'),
+          },
+        ],
+        structuredContent: {
+          columns: matrix.columns,
+          rows: matrix.rows.map((row) => ({
+            key: row.profile.key,
+            ids: row.profile.ids,
+            emails: row.profile.emails,
+            usernames: row.profile.usernames,
+            titles: row.profile.titles,
+            present: row.present,
+            server_count: row.serverCount,
+          })),
+          total_identities: matrix.totalIdentities,
+          discovery,
+          errors: discovery?.errors ?? [],
+        } as unknown as Record<string, unknown>,
+      };
+    }
+  );
+
+  server.registerTool(
+    'plex_export_access',
+    {
+      title: 'Export Plex Access',
+      description:
+        'Exports every user × server row with account labels, flags, and share settings as CSV, JSON Lines, or a Markdown table, inline or as a file in the configured export directory.',
+      inputSchema: exportAccessShape,
+    },
+    async (input: ExportAccessInput) => {
+      toolsLogger.info('Export access tool invoked', input ?? {});
+
+      const options: AccessInventoryOptions = {};
+      if (input.account_label) {
+        options.accountLabel = input.account_label;
+      }
+      if (input.server) {
+        options.server = input.server;
+      }
+      if (typeof input.refresh === 'boolean') {
+        options.refresh = input.refresh;
+      }
+
+      const users = await manager.getAccessInventory(options);
+      const rows = users.map(toExportRow);
+      const rendered = renderAccessExport(rows, input.format);
+      const discovery = manager.getDiscoveryReport();
+      const warning = formatDiscoveryWarning(discovery);
+
+      if (!input.write_to_file) {
+        return {
+          content: [{ type: 'text', text: [rendered, ...warning].join('\n') }],
+          structuredContent: {
+            format: input.format,
+            row_count: rows.length,
+            rows,
+            discovery,
+            errors: discovery?.errors ?? [],
+          } as unknown as Record<string, unknown>,
+        };
+      }
+
+      if (!exportDir) {
+        throw new Error('write_to_file requires export_dir to be set in the server config');
+      }
+      const defaultName = `plex-access-${new Date().toISOString().replace(/[:.]/g, '-')}.${EXPORT_FILE_EXTENSIONS[input.format]}`;
+      const fileName = basename(input.file_name ?? defaultName);
+      if (!fileName || fileName === '.' || fileName === '..') {
+        throw new Error(`Invalid export file name: ${input.file_name}`);
+      }
+      const filePath = join(resolve(exportDir), fileName);
+      await mkdir(resolve(exportDir), { recursive: true });
+      try {
+        await writeFile(filePath, rendered, { encoding: 'utf8', flag: 'wx' });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+          throw new Error(`Export file already exists: ${filePath}. Choose another file_name.`);
+        }
+        throw error;
+      }
+      toolsLogger.info('Access export written', { path: filePath, rows: rows.length });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: [`Wrote ${rows.length} rows as ${input.format} to ${filePath}`, ...warning].join('\n'),
+          },
+        ],
+        structuredContent: {
+          format: input.format,
+          row_count: rows.length,
+          path: filePath,
+          discovery,
+          errors: discovery?.errors ?? [],
+        } as unknown as Record<string, unknown>,
+      };
+    }
+  );
+
+  server.registerTool(
+    'plex_generate_auth_url',
+    {
+      title: 'Generate Plex Authorization URL',
+      description: 'Creates a Plex authentication URL and PIN so you can authorize a new account.',
+      inputSchema: authUrlShape,
+    },
+    async (input: AuthUrlInput) => {
+      toolsLogger.info('Auth URL generation requested', {
+        has_custom_identifier: Boolean(input.client_identifier),
+        account_label: input.account_label,
+      });
+
+      const result = await manager.generateAuthPin(input.client_identifier, input.account_label);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: [
+              'Open the following URL in your browser and sign in to Plex to authorize access:',
+              result.authorizationUrl,
+              '',
+              `PIN ID: ${result.pin.id}`,
+              `Client Identifier: ${result.pin.clientIdentifier}`,
+              `PIN Code: ${result.pin.code}`,
+              `Expires At: ${result.pin.expiresAt}`,
+              '',
+              result.accountLabel
+                ? `After completing the login, run plex_check_auth_pin with the PIN ID and client identifier to register the account as "${result.accountLabel}".`
+                : 'After completing the login, run plex_check_auth_pin with the PIN ID and client identifier to retrieve the token.',
+            ].join('\n'),
+          },
+        ],
+        structuredContent: {
+          authorization_url: result.authorizationUrl,
+          pin: result.pin,
+          account_label: result.accountLabel,
+          errors: [],
+        } as Record<string, unknown>,
+      };
+    }
+  );
+
+  server.registerTool(
+    'plex_check_auth_pin',
+    {
+      title: 'Check Plex Authorization PIN',
+      description: 'Polls Plex for the status of an authorization PIN and returns the token when ready.',
+      inputSchema: pollShape,
+    },
+    async (input: PollInput) => {
+      toolsLogger.info('Auth PIN status requested', {
+        pin_id: input.pin_id,
+      });
+
+      const result = await manager.checkAuthPinStatus(input.pin_id, input.client_identifier, input.account_label);
+      const status = result.status;
+      let message: string;
+      if (!status.authToken) {
+        message = 'Authorization pending. Please complete the login flow in your browser.';
+      } else if (result.registered) {
+        message = `Authorization complete. The token is registered as account "${result.registered.label}" and is usable immediately.`;
+      } else if (result.registrationError) {
+        message = `Authorization complete, but the account could not be registered: ${result.registrationError}`;
+      } else {
+        message = 'Authorization complete. Use the returned auth token as your Plex API token, or pass account_label to register it.';
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: [
+              `PIN ID: ${status.id}`,
+              `Client Identifier: ${status.clientIdentifier}`,
+              `Expires At: ${status.expiresAt}`,
+              `Auth Token Received: ${status.authToken ? 'yes' : 'no'}`,
+              '',
+              message,
+            ].join('\n'),
+          },
+        ],
+        structuredContent: {
+          pin: status,
+          message,
+          registered_account: result.registered,
+          errors: [],
+        } as Record<string, unknown>,
+      };
+    }
+  );
+
+  server.registerTool(
+    'plex_list_accounts',
+    {
+      title: 'List Plex Accounts',
+      description: 'Lists Plex accounts from the config, the token store, and runtime registration.',
+      inputSchema: {},
+    },
+    async () => {
+      toolsLogger.info('List accounts tool invoked');
+      const accounts = manager.listAccounts();
+      const lines = accounts.map((account) => {
+        const identity = [account.username, account.email].filter(Boolean).join(' · ');
+        const added = account.addedAt ? `, added ${account.addedAt}` : '';
+        const validated = account.lastValidatedAt ? `, validated ${account.lastValidatedAt}` : '';
+        return `- ${account.label} (${account.source}${added}${validated})${identity ? ` — ${identity}` : ''}`;
+      });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: accounts.length > 0 ? lines.join('\n') : 'No Plex accounts are configured.',
+          },
+        ],
+        structuredContent: { accounts, errors: [] } as Record<string, unknown>,
+      };
+    }
+  );
+
+  server.registerTool(
+    'plex_relabel_account',
+    {
+      title: 'Relabel Plex Account',
+      description: 'Renames a stored or runtime-registered account. Accounts from the server config cannot be changed.',
+      inputSchema: relabelAccountShape,
+    },
+    async (input: RelabelAccountInput) => {
+      toolsLogger.info('Relabel account tool invoked', { label: input.label, new_label: input.new_label });
+      const account = await manager.relabelAccount(input.label, input.new_label);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Account ${input.label} is now labeled ${account.label}.`,
+          },
+        ],
+        structuredContent: { account, errors: [] } as Record<string, unknown>,
+      };
+    }
+  );
+
+  server.registerTool(
+    'plex_remove_account',
+    {
+      title: 'Remove Plex Account',
+      description: 'Removes a stored or runtime-registered account. Accounts from the server config cannot be removed.',
+      inputSchema: removeAccountShape,
+    },
+    async (input: RemoveAccountInput) => {
+      toolsLogger.info('Remove account tool invoked', { label: input.label });
+      const account = await manager.removeAccount(input.label);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Account ${account.label} was removed. Its token is no longer used.`,
+          },
+        ],
+        structuredContent: { account, errors: [] } as Record<string, unknown>,
+      };
+    }
+  );
+
+  server.registerTool(
+    'plex_home_users',
+    {
+      title: 'Plex Home Users',
+      description:
+        "Lists each account's Plex Home: admins, members, and managed (restricted) profiles, including members with no server share.",
+      inputSchema: homeUsersShape,
+    },
+    async (input: HomeUsersInput) => {
+      toolsLogger.info('Home users tool invoked', input ?? {});
+
+      const options: HomeUsersOptions = {};
+      if (input.account_label) {
+        options.accountLabel = input.account_label;
+      }
+      if (typeof input.refresh === 'boolean') {
+        options.refresh = input.refresh;
+      }
+
+      const result = await manager.getHomeUsers(options);
+      return {
+        content: [{ type: 'text', text: formatHomeUsersSummary(result) }],
+        structuredContent: { ...result } as unknown as Record<string, unknown>,
+      };
+    }
+  );
+
+  server.registerTool(
+    'plex_switch_home_user',
+    {
+      title: 'Switch Plex Home User',
+      description:
+        'Mints a token acting as a member of an account\'s Plex Home and registers it as an account, so the other tools can show what that member sees. The token itself is not returned.',
+      inputSchema: switchHomeUserShape,
+    },
+    async (input: SwitchHomeUserInput) => {
+      toolsLogger.info('Switch home user tool invoked', {
+        account_label: input.account_label,
+        user: input.user,
+        label: input.label,
+      });
+
+      const options: SwitchHomeUserOptions = { accountLabel: input.account_label, user: input.user };
+      if (input.pin) {
+        options.pin = input.pin;
+      }
+      if (input.label) {
+        options.label = input.label;
+      }
+
+      const result = await manager.switchToHomeUser(options);
+      const member = result.member.username ?? result.member.title ?? String(result.member.id);
+      const message = `Switched to home member ${member}. The token is registered as account "${result.registered.label}"; use that label with other tools to see what they can access, and remove it when done.`;
+
+      return {
+        content: [{ type: 'text', text: message }],
+        structuredContent: {
+          account_label: result.accountLabel,
+          member: result.member,
+          registered_account: result.registered,
+          message,
+          errors: [],
+        } as unknown as Record<string, unknown>,
+      };
+    }
+  );
+}
+
+function registerResources(server: McpServer, manager: PlexAccountManager, logger: Logger) {
+  const resourcesLogger = logger.child('resources');
+
+  const jsonContents = (uri: URL, value: unknown) => ({
+    contents: [{ uri: uri.href, mimeType: 'application/json', text: JSON.stringify(value, null, 2) }],
+  });
+
+  const serversById = async (machineIdentifier: string) => {
+    const servers = (await manager.getServers()).filter((entry) => entry.machineIdentifier === machineIdentifier);
+    if (servers.length === 0) {
+      throw new Error(`No server found with machineIdentifier ${machineIdentifier}`);
+    }
+    return servers;
+  };
+
+  const distinctServers = async () => {
+    const byId = new Map<string, string>();
+    for (const entry of await manager.getServers()) {
+      if (!byId.has(entry.machineIdentifier)) {
+        byId.set(entry.machineIdentifier, entry.friendlyName);
+      }
+    }
+    return Array.from(byId, ([machineIdentifier, name]) => ({ machineIdentifier, name }));
+  };
+
+  const completeMachineIdentifier = async (value: string) =>
+    (await distinctServers())
+      .map((entry) => entry.machineIdentifier)
+      .filter((machineIdentifier) => machineIdentifier.startsWith(value));
+
+  server.registerResource(
+    'plex-accounts',
+    'plex://accounts',
+    {
+      title: 'Plex Accounts',
+      description: 'Configured, stored, and runtime-registered Plex accounts (tokens are never included).',
+      mimeType: 'application/json',
+    },
+    async (uri) => {
+      resourcesLogger.debug('Accounts resource read');
+      return jsonContents(uri, { accounts: manager.listAccounts() });
+    }
+  );
+
+  server.registerResource(
+    'plex-server',
+    new ResourceTemplate('plex://servers/{machineIdentifier}', {
+      list: async () => ({
+        resources: (await distinctServers()).map((entry) => ({
+          uri: `plex://servers/${entry.machineIdentifier}`,
+          name: entry.name,
+          mimeType: 'application/json',
+        })),
+      }),
+      complete: { machineIdentifier: completeMachineIdentifier },
+    }),
+    {
+      title: 'Plex Server',
+      description: 'A discovered Plex Media Server, with one entry per account that can reach it.',
+      mimeType: 'application/json',
+    },
+    async (uri, variables) => {
+      const machineIdentifier = String(variables.machineIdentifier);
+      resourcesLogger.debug('Server resource read', { machineIdentifier });
+      const servers = await serversById(machineIdentifier);
+      return jsonContents(uri, {
+        machineIdentifier,
+        name: servers[0]?.friendlyName,
+        accounts: servers,
+      });
+    }
+  );
+
+  server.registerResource(
+    'plex-server-users',
+    new ResourceTemplate('plex://servers/{machineIdentifier}/users', {
+      list: async () => ({
+        resources: (await distinctServers()).map((entry) => ({
+          uri: `plex://servers/${entry.machineIdentifier}/users`,
+          name: `${entry.name} users`,
+          mimeType: 'application/json',
+        })),
+      }),
+      complete: { machineIdentifier: completeMachineIdentifier },
+    }),
+    {
+      title: 'Plex Server Users',
+      description: 'Users with access to a Plex Media Server, including shared libraries.',
+      mimeType: 'application/json',
+    },
+    async (uri, variables) => {
+      const machineIdentifier = String(variables.machineIdentifier);
+      resourcesLogger.debug('Server users resource read', { machineIdentifier });
+      const servers = await serversById(machineIdentifier);
+      const users = (await manager.getUsersAcrossServers()).filter(
+        (user) => user.serverIdentifier === machineIdentifier
+      );
+      return jsonContents(uri, {
+        machineIdentifier,
+        name: servers[0]?.friendlyName,
+        users,
+        discovery: manager.getDiscoveryReport(),
+      });
+    }
+  );
+}
+
+function registerPrompts(server: McpServer) {
+  const userPrompt = (steps: string[]) => ({
+    messages: [{ role: 'user' as const, content: { type: 'text' as const, text: steps.join('\n') } }],
+  });
+
+  server.registerPrompt(
+    'audit_access',
+    {
+      title: 'Audit Plex Access',
+      description: 'Reviews token health, who has access to which libraries, and what changed recently.',
+      argsSchema: auditAccessPromptShape,
+    },
+    ({ server: serverFilter, since_days }) => {
+      const days = since_days && Number.isFinite(Number(since_days)) ? Number(since_days) : 7;
+      const scope = serverFilter ? ` on server "${serverFilter}"` : ' across all servers';
+      return userPrompt([
+        `Audit who has access to our Plex libraries${scope}.`,
+        '',
+        '1. Call plex_status with {"revalidate": true, "include_user_count": true}. Report any account whose token is not valid and any discovery warnings before continuing.',
+        `2. Call plex_access_diff with {"since_days": ${days}, "refresh": true} and summarize users added, removed, or whose flags changed.`,
+        `3. Call plex_export_access with {"format": "jsonl"${serverFilter ? `, "server": ${JSON.stringify(serverFilter)}` : ''}} to list every user row with the libraries it can see, including users without an email address.`,
+        '4. For anyone who looks unexpected (unknown email domain, recently added, broad library access), call plex_user_profile with their email to see every server they reach.',
+        '',
+        'Finish with a short table of users and libraries, followed by a list of items that need a human decision. Do not change any shares.',
+      ]);
+    }
+  );
+
+  server.registerPrompt(
+    'offboard_user',
+    {
+      title: 'Offboard Plex User',
+      description: 'Finds every share a person has and removes them after a reviewed dry run.',
+      argsSchema: offboardUserPromptShape,
+    },
+    ({ email }) =>
+      userPrompt([
+        `Offboard ${email} from all of our Plex servers.`,
+        '',
+        `1. Call plex_user_profile with {"query": ${JSON.stringify(email)}, "refresh": true}. If more than one profile matches, stop and ask which person is meant.`,
+        '2. Note the user id and every server in the profile. Call plex_library_access with the same query to record which libraries they had.',
+        '3. Call plex_revoke_access with {"user_id": <id>} and no confirm flag to get the dry-run preview. Show the preview and wait for explicit approval.',
+        '4. After approval, call plex_revoke_access again with {"user_id": <id>, "confirm": true}.',
+        `5. Call plex_lookup_user with {"query": ${JSON.stringify(email)}, "refresh": true} to verify no access remains.`,
+        '',
+        'Report the servers and libraries that were removed and anything that could not be revoked.',
+      ])
+  );
+
+  server.registerPrompt(
+    'add_plex_account',
+    {
+      title: 'Add Plex Account',
+      description: 'Walks through the PIN login flow and registers the resulting token under a label.',
+      argsSchema: addAccountPromptShape,
+    },
+    ({ label }) =>
+      userPrompt([
+        `Add a new Plex account labeled "${label}".`,
+        '',
+        '1. Call plex_list_accounts and stop if an account with this label already exists.',
+        `2. Call plex_generate_auth_url with {"account_label": ${JSON.stringify(label)}}. Give me the authorization URL and wait until I say I have signed in.`,
+        `3. Call plex_check_auth_pin with the returned pin id and client identifier and {"account_label": ${JSON.stringify(label)}}. If authorization is still pending, wait for me and try again; PINs expire after a few minutes.`,
+        '4. Once the account is registered, call plex_status with {"revalidate": true, "refresh": true} and report the servers the new account can see.',
+        '',
+        'Never print the auth token itself.',
+      ])
+  );
+}
+
+function formatLookupSummary(result: Awaited<ReturnType<PlexAccountManager['searchUsers']>>): string {
+  if (result.matches.length === 0) {
+    return 'No matching Plex users were found.';
+  }
+
+  const lines = result.matches.map((match, index) => {
+    const user = match.user;
+    const identity = [user.username, user.email, user.title].filter(Boolean).join(' · ');
+    const lines = [
+      `${index + 1}. ${identity || 'Unknown'} — server: ${user.serverName} (account: ${user.accountLabel}) [id=${user.id ?? 'n/a'}, score=${match.score.toFixed(3)}]`,
+    ];
+    if (user.share) {
+      lines.push(`   libraries: ${formatLibraries(user.share)}`);
+    }
+    if (match.matchDetails.length > 0) {
+      const clauses = match.matchDetails.map((detail) => `${detail.clause} (${detail.mode}) on ${detail.key} "${detail.value}"`);
+      lines.push(`   matched: ${Array.from(new Set(clauses)).join('; ')}`);
+    }
+    return lines.join('\n');
+  });
+
+  lines.push(
+    '',
+    `Matches returned: ${result.matches.length}`,
+    `Total matched: ${result.totalMatched}`,
+    `Total users searched: ${result.totalSearched}`
+  );
+  return lines.join('\n');
+}
+
+function formatFlags(flags: { restricted: boolean | null; home: boolean | null; guest: boolean | null; canInvite: boolean | null }): string {
+  const set = [
+    flags.restricted ? 'restricted' : null,
+    flags.home ? 'home' : null,
+    flags.guest ? 'guest' : null,
+    flags.canInvite ? 'canInvite' : null,
+  ].filter(Boolean);
+  return set.length > 0 ? set.join(', ') : 'none';
+}
+
+function formatProfileSummary(result: Awaited<ReturnType<PlexAccountManager['getUserProfiles']>>): string {
+  if (result.profiles.length === 0) {
+    return 'No matching Plex users were found.';
+  }
+
+  const lines: string[] = [];
+  result.profiles.forEach((profile, index) => {
+    const identity = [profile.usernames[0], profile.emails[0], profile.titles[0]].filter(Boolean).join(' · ');
+    lines.push(`${index + 1}. ${identity || 'Unknown'} — ${profile.servers.length} server(s), accounts: ${profile.accountLabels.join(', ')}`);
+    for (const server of profile.servers) {
+      lines.push(`   - ${server.serverName} (account: ${server.accountLabel}) [flags: ${formatFlags(server)}]`);
+    }
+    if (profile.homes.length > 0) {
+      lines.push(`   - Plex Home member of: ${profile.homes.join(', ')}`);
+    }
+    for (const conflict of profile.conflicts) {
+      lines.push(`   ! conflicting ${conflict.field}s: ${conflict.values.join(', ')}`);
+    }
+  });
+
+  lines.push('', `Profiles returned: ${result.profiles.length}`, `Total identities: ${result.totalProfiles}`);
+  return lines.join('\n');
+}
+
+function formatLibraries(share: PlexShareDetails): string {
+  if (share.allLibraries) {
+    return 'all libraries';
+  }
+  const titles = sharedLibraryTitles(share);
+  return titles.length > 0 ? titles.join(', ') : 'none';
+}
+
+function formatLibraryAccessSummary(result: Awaited<ReturnType<PlexAccountManager['getLibraryAccess']>>): string {
+  if (result.entries.length === 0) {
+    return 'No matching Plex users were found.';
+  }
+
+  const lines: string[] = [];
+  result.entries.forEach((entry, index) => {
+    const user = entry.user;
+    const identity = [user.username, user.email, user.title].filter(Boolean).join(' · ');
+    lines.push(`${index + 1}. ${identity || 'Unknown'} — server: ${entry.serverName} (account: ${entry.accountLabel})`);
+    if (!entry.share) {
+      lines.push('   no share entry (owner, home, or local account)');
+      return;
+    }
+    lines.push(`   libraries: ${formatLibraries(entry.share)}`);
+    lines.push(`   allowSync: ${entry.share.allowSync ? 'yes' : 'no'}`);
+    const filters = [
+      ['all', entry.share.filterAll],
+      ['movies', entry.share.filterMovies],
+      ['television', entry.share.filterTelevision],
+      ['music', entry.share.filterMusic],
+      ['photos', entry.share.filterPhotos],
+    ].filter(([, value]) => Boolean(value));
+    if (filters.length > 0) {
+      lines.push(`   filters: ${filters.map(([name, value]) => `${name}=${value}`).join('; ')}`);
+    }
+  });
+
+  lines.push('', `Entries returned: ${result.entries.length}`);
+  return lines.join('\n');
+}
+
+function formatShareServerSummary(result: Awaited<ReturnType<PlexAccountManager['shareServer']>>): string {
+  const libraries = result.libraries.map((section) => section.title).join(', ') || 'none';
+  const lines = [
+    result.dryRun ? 'DRY RUN — no changes were made.' : 'Share created.',
+    `Account: ${result.accountLabel}`,
+    `Server: ${result.machineIdentifier}`,
+    `Invitee: ${result.email}`,
+    `Libraries: ${libraries}`,
+    '',
+    `${result.request.method} ${result.request.url}`,
+    JSON.stringify(result.request.body, null, 2),
+  ];
+  if (result.dryRun) {
+    lines.push('', 'Re-run plex_share_server with confirm: true to send this request.');
+  }
+  return lines.join('\n');
+}
+
+function formatShareChangeSummary(
+  result: Awaited<ReturnType<PlexAccountManager['revokeAccess']>>,
+  toolName: string
+): string {
+  const identity = [result.user.username, result.user.email, result.user.title].filter(Boolean).join(' · ');
+  const lines = [
+    result.dryRun
+      ? 'DRY RUN — no changes were made.'
+      : result.failed > 0
+        ? `${result.changes.length - result.failed} of ${result.changes.length} changes applied; ${result.failed} failed.`
+        : 'Changes applied.',
+    `User: ${identity || 'Unknown'} (id ${result.userId})`,
+    '',
+  ];
+
+  for (const change of result.changes) {
+    const status = change.applied ? 'applied' : change.error ? 'failed' : 'planned';
+    lines.push(`- ${change.serverName} (account: ${change.accountLabel}) — ${change.action} [${status}]`);
+    if (change.error) {
+      lines.push(`   error: ${change.error}`);
+    }
+    lines.push(`   before: ${change.librariesBefore.join(', ') || 'none'}`);
+    lines.push(`   after: ${change.librariesAfter.join(', ') || 'none'}`);
+    if (change.librariesAdded.length > 0) {
+      lines.push(`   added: ${change.librariesAdded.join(', ')}`);
+    }
+    if (change.librariesRemoved.length > 0) {
+      lines.push(`   removed: ${change.librariesRemoved.join(', ')}`);
+    }
+    lines.push(`   ${change.request.method} ${change.request.url}`);
+  }
+
+  if (result.dryRun) {
+    lines.push('', `Re-run ${toolName} with confirm: true to apply these changes.`);
+  }
+  return lines.join('\n');
+}
+
+function formatBulkLookupSummary(result: Awaited<ReturnType<PlexAccountManager['bulkLookup']>>): string {
+  const describe = (profile: PlexUserProfile) =>
+    [profile.emails[0], profile.usernames[0]].filter(Boolean).join(' · ') || profile.key;
+  const lines = result.entries.flatMap((entry) => {
+    if (entry.status === 'invalid') {
+      return [`! ${JSON.stringify(entry.input)} — not a usable identifier`];
+    }
+    if (!entry.profile) {
+      return [
+        `✗ ${entry.input} — no access found`,
+        ...entry.suggestions.map(
+          (suggestion) => `    did you mean ${describe(suggestion.profile)}? (fuzzy, confidence ${suggestion.confidence.toFixed(2)})`
+        ),
+      ];
+    }
+    const access = [
+      ...entry.profile.servers.map((server) => `${server.serverName} (${server.accountLabel})`),
+      ...entry.profile.homes.map((home) => `Plex Home (${home})`),
+    ].join(', ');
+    const note =
+      entry.status === 'ambiguous'
+        ? `, ${entry.candidates} people match`
+        : entry.status === 'normalized'
+          ? `, confidence ${entry.confidence.toFixed(2)}`
+          : '';
+    return [`✓ ${entry.input} → ${describe(entry.profile)} [${entry.status}${note}] — ${access || 'no servers'}`];
+  });
+
+  lines.push('', `Inputs: ${result.entries.length}`, `Found: ${result.found}`);
+  if (result.normalized.length > 0) {
+    lines.push(`Matched only by normalized email (${result.normalized.length}): ${result.normalized.join(', ')}`);
+  }
+  if (result.notFound.length > 0) {
+    lines.push(`No access anywhere (${result.notFound.length}): ${result.notFound.join(', ')}`);
+  }
+  if (result.invalid.length > 0) {
+    lines.push(`Invalid inputs: ${result.invalid.length}`);
+  }
+  return lines.join('\n');
+}
+
+function formatInactiveUsersSummary(result: Awaited<ReturnType<PlexAccountManager['getInactiveUsers']>>): string {
+  const lines = [`Shared users with no playback since ${result.cutoff} (${result.days} days):`, ''];
+
+  if (result.entries.length === 0) {
+    lines.push('No inactive users found.');
+  } else {
+    let currentServer: string | null = null;
+    for (const entry of result.entries) {
+      const serverKey = `${entry.serverIdentifier}:${entry.accountLabel}`;
+      if (serverKey !== currentServer) {
+        if (currentServer !== null) {
+          lines.push('');
+        }
+        lines.push(`${entry.serverName} (account: ${entry.accountLabel}):`);
+        currentServer = serverKey;
+      }
+      const identity = [entry.user.username, entry.user.email, entry.user.title].filter(Boolean).join(' · ');
+      const seen =
+        entry.lastSeenAt === null
+          ? 'never played anything'
+          : `last played ${entry.lastSeenAt} (${entry.daysSinceSeen} days ago)${entry.lastTitle ? `: ${entry.lastTitle}` : ''}`;
+      lines.push(`- ${identity || 'Unknown'} — ${seen}`);
+    }
+  }
+
+  lines.push('', `Users checked: ${result.checkedUsers}`, `Inactive: ${result.entries.length}`);
+  if (result.unknownUsers > 0) {
+    lines.push(`Unknown (history unavailable): ${result.unknownUsers}`);
+  }
+  if (result.skippedServers.length > 0) {
+    lines.push(
+      `Skipped servers not owned by a configured account: ${result.skippedServers
+        .map((server) => `${server.name} (${server.accountLabel})`)
+        .join(', ')}`
+    );
+  }
   return lines.join('\n');
 }
+
+function formatHomeUsersSummary(result: Awaited<ReturnType<PlexAccountManager['getHomeUsers']>>): string {
+  const lines: string[] = [];
+  for (const home of result.homes) {
+    if (lines.length > 0) {
+      lines.push('');
+    }
+    if (home.members.length === 0) {
+      lines.push(`${home.accountLabel}: not part of a Plex Home.`);
+      continue;
+    }
+    lines.push(`Plex Home (account: ${home.accountLabel}):`);
+    for (const member of home.members) {
+      const identity = [member.username, member.email].filter(Boolean).join(' · ');
+      const role = member.admin ? 'admin' : member.restricted ? 'managed' : 'member';
+      const flags = [role, member.protected ? 'PIN protected' : null, member.guest ? 'guest' : null].filter(Boolean);
+      lines.push(`- ${member.title ?? 'Unknown'}${identity ? ` (${identity})` : ''} — id ${member.id ?? 'unknown'} [${flags.join(', ')}]`);
+    }
+  }
+
+  if (result.errors.length > 0) {
+    lines.push('', 'Results may be incomplete:');
+    lines.push(...result.errors.map((error) => `- ${error.accountLabel ?? 'unknown account'}: ${error.message}`));
+  }
+  return lines.length > 0 ? lines.join('\n') : 'No Plex accounts are configured.';
+}
+
+const STREAM_DECISION_LABELS: Record<PlexStreamDecision, string> = {
+  direct_play: 'direct play',
+  direct_stream: 'direct stream',
+  transcode: 'transcode',
+};
+
+function formatNowPlayingSummary(result: Awaited<ReturnType<PlexAccountManager['getNowPlaying']>>): string {
+  const lines: string[] = [];
+
+  if (result.sessions.length === 0) {
+    lines.push('Nothing is playing right now.');
+  } else {
+    let currentServer: string | null = null;
+    for (const entry of result.sessions) {
+      const serverKey = `${entry.serverIdentifier}:${entry.accountLabel}`;
+      if (serverKey !== currentServer) {
+        if (currentServer !== null) {
+          lines.push('');
+        }
+        lines.push(`${entry.serverName} (account: ${entry.accountLabel}):`);
+        currentServer = serverKey;
+      }
+      const { session, profile } = entry;
+      const identity = profile
+        ? [profile.usernames[0], profile.emails[0]].filter(Boolean).join(' · ')
+        : `${session.userTitle ?? 'Unknown'} (unresolved)`;
+      const player = [session.player.title, session.player.product, session.player.device].filter(Boolean).join(' / ');
+      const details = [
+        STREAM_DECISION_LABELS[session.decision],
+        session.bandwidthKbps !== null ? `${(session.bandwidthKbps / 1000).toFixed(1)} Mbps` : null,
+        session.location,
+        session.player.state,
+      ].filter(Boolean);
+      lines.push(`- ${identity || 'Unknown'} — ${session.title ?? 'Unknown title'} on ${player || 'unknown player'} [${details.join(', ')}]`);
+    }
+  }
+
+  const transcodes = result.sessions.filter((entry) => entry.session.decision === 'transcode').length;
+  lines.push(
+    '',
+    `Active sessions: ${result.sessions.length} (${transcodes} transcoding)`,
+    `Total bandwidth: ${(result.totalBandwidthKbps / 1000).toFixed(1)} Mbps`,
+    `Servers checked: ${result.checkedServers}`
+  );
+  if (result.skippedServers.length > 0) {
+    lines.push(
+      `Skipped servers not owned by a configured account: ${result.skippedServers
+        .map((server) => `${server.name} (${server.accountLabel})`)
+        .join(', ')}`
+    );
+  }
+  return lines.join('\n');
+}
+
+function formatAccessMatrix(matrix: Awaited<ReturnType<PlexAccountManager['getAccessMatrix']>>): string {
+  if (matrix.columns.length === 0) {
+    return 'No Plex servers were discovered.';
+  }
+
+  const lines = matrix.columns.map(
+    (column, index) =>
+      `[${index + 1}] ${column.serverName} (account: ${column.accountLabel})${column.usersKnown ? '' : ' — users unknown (shared server or failed fetch)'}`
+  );
+  lines.push('');
+
+  if (matrix.rows.length === 0) {
+    lines.push('No people match the requested filters.');
+  } else {
+    const width = String(matrix.columns.length).length;
+    lines.push(`${matrix.columns.map((_, index) => String(index + 1).padEnd(width)).join(' ')}  person`);
+    for (const row of matrix.rows) {
+      const cells = row.present.map((present) => (present === null ? '?' : present ? '✓' : '·').padEnd(width)).join(' ');
+      const identity = [row.profile.emails[0], row.profile.usernames[0]].filter(Boolean).join(' · ');
+      lines.push(`${cells}  ${identity || row.profile.titles[0] || 'Unknown'}`);
+    }
+  }
+
+  lines.push('', `People shown: ${matrix.rows.length} of ${matrix.totalIdentities}`);
+  return lines.join('\n');
+}
+
+function formatAccessDiffSummary(result: Awaited<ReturnType<PlexAccountManager['diffAccess']>>): string {
+  const describe = (entry: AccessDiffEntry) => {
+    const identity = [entry.user.username, entry.user.email, entry.user.title].filter(Boolean).join(' · ');
+    return `${identity || 'Unknown'} — server: ${entry.serverName} (account: ${entry.accountLabel})`;
+  };
+
+  const lines = [`Comparing ${result.from.recordedAt} → ${result.to.id === 'live' ? 'live data' : result.to.recordedAt}`, ''];
+  for (const error of result.errors) {
+    lines.push(`Skipped: ${formatDiagnostic(error)}`);
+  }
+  if (result.errors.length > 0) {
+    lines.push('');
+  }
+
+  if (result.added.length + result.removed.length + result.changed.length === 0) {
+    lines.push('No access changes detected.');
+    return lines.join('\n');
+  }
+
+  if (result.added.length > 0) {
+    lines.push(`Added (${result.added.length}):`);
+    lines.push(...result.added.map((entry) => `+ ${describe(entry)}`));
+    lines.push('');
+  }
+  if (result.removed.length > 0) {
+    lines.push(`Removed (${result.removed.length}):`);
+    lines.push(...result.removed.map((entry) => `- ${describe(entry)}`));
+    lines.push('');
+  }
+  if (result.changed.length > 0) {
+    lines.push(`Flag changes (${result.changed.length}):`);
+    for (const entry of result.changed) {
+      const changes = entry.changes.map((change) => `${change.field}: ${change.before} → ${change.after}`).join(', ');
+      lines.push(`~ ${describe(entry)} [${changes}]`);
+    }
+  }
+
+  return lines.join('\n').trimEnd();
+}
+
+function formatDiagnostic(diagnostic: PlexDiagnostic): string {
+  const where = [diagnostic.accountLabel && `account ${diagnostic.accountLabel}`, diagnostic.server && `server ${diagnostic.server}`]
+    .filter(Boolean)
+    .join(', ');
+  const status = diagnostic.status === null ? '' : ` (HTTP ${diagnostic.status})`;
+  return `${where ? `${where} — ` : ''}${diagnostic.endpoint}${status}: ${diagnostic.message}`;
+}
+
+function formatTokenHealth(health: TokenHealth): string {
+  const identity = [health.username, health.email].filter(Boolean).join(' · ');
+  const plan = health.plexPass === null ? '' : health.plexPass ? ', Plex Pass' : ', no Plex Pass';
+  const validated = health.lastValidatedAt ? `last validated ${health.lastValidatedAt}` : 'never validated';
+  const failure =
+    health.status !== 'valid' && health.lastFailure
+      ? ` — ${health.lastFailure.kind}${health.lastFailure.status === null ? '' : ` (HTTP ${health.lastFailure.status})`}: ${health.lastFailure.message}`
+      : '';
+  return `${health.label}: ${health.status}${identity ? ` (${identity}${plan})` : ''}, ${validated}${failure}`;
+}
+
+function tokenHealthDiagnostics(health: TokenHealth): PlexDiagnostic[] {
+  if (!health.lastFailure) {
+    return [];
+  }
+  return [
+    {
+      accountLabel: health.label,
+      server: null,
+      endpoint: '/users/account.json',
+      status: health.lastFailure.status,
+      message: health.lastFailure.message,
+    },
+  ];
+}
+
+function formatDiscoveryWarning(report: DiscoveryReport | null): string[] {
+  if (!report || report.complete) {
+    return [];
+  }
+
+  const lines = ['', '⚠ Results may be incomplete.'];
+  if (report.pendingAccounts.length > 0 || report.pendingServers.length > 0) {
+    lines.push(`Discovery deadline of ${report.timeoutMs / 1000}s was reached.`);
+  }
+  if (report.pendingAccounts.length > 0) {
+    lines.push(`Accounts not finished: ${report.pendingAccounts.join(', ')}`);
+  }
+  for (const pending of report.pendingServers) {
+    lines.push(`Server not finished: ${pending.name} (account: ${pending.accountLabel}, stage: ${pending.stage})`);
+  }
+  for (const diagnostic of report.errors) {
+    lines.push(`Error: ${formatDiagnostic(diagnostic)}`);
+  }
+  return lines;
+}
@@ -1,22 +1,83 @@
-import axios from 'axios';
-import type { AxiosRequestConfig } from 'axios';
 import { parseStringPromise } from 'xml2js';
 import { v4 as uuidv4 } from 'uuid';
 import { Logger } from './logger.js';
-import type { PlexResource, PlexServer, PlexUserAccess } from './types.js';
+import { axiosTransport, PlexRequestError } from './transport.js';
+import type { PlexHttpMethod, PlexHttpResponse, PlexTransport } from './transport.js';
+import {
+  CircuitBreakerRegistry,
+  CircuitOpenError,
+  computeBackoffMs,
+  DEFAULT_CIRCUIT_BREAKER_POLICY,
+  DEFAULT_RETRY_POLICY,
+  isRetryableStatus,
+  parseRetryAfterMs,
+} from './resilience.js';
+import type { CircuitBreakerPolicy, RequestStats, RetryPolicy } from './resilience.js';
+import { homeServerIdentifier, pairAccountRows } from './identity.js';
+import type {
+  ConnectionPolicy,
+  PlexAccountInfo,
+  PlexConnectionType,
+  PlexDiagnostic,
+  PlexHomeUser,
+  PlexLibrarySection,
+  PlexResource,
+  PlexServer,
+  PlexServerConnection,
+  PlexSession,
+  PlexShareDetails,
+  PlexStreamDecision,
+  PlexUserAccess,
+  PlexViewing,
+} from './types.js';
 
-const PLEX_API_BASE = 'https://plex.tv';
+export const DEFAULT_PLEX_API_BASE = 'https://plex.tv';
 const PLEX_PRODUCT = 'Plex MCP Account Finder';
 const PLEX_VERSION = '0.1.0';
 const PLEX_PLATFORM = 'Node';
 const PLEX_DEVICE = 'MCP';
 const DEFAULT_TIMEOUT_MS = 15000;
+const CONNECTION_PROBE_TIMEOUT_MS = 5000;
+
+export const DEFAULT_CONNECTION_POLICY: ConnectionPolicy = {
+  preference: ['local', 'remote', 'relay'],
+  httpsOnly: false,
+};
+
+export interface PlexClientSettings {
+  apiBaseUrl: string;
+  transport: PlexTransport;
+  retry: RetryPolicy;
+  circuitBreaker: CircuitBreakerPolicy;
+}
 
 interface RequestOptions {
   token?: string;
   clientIdentifier?: string;
   timeoutMs?: number;
-  responseType?: AxiosRequestConfig['responseType'];
+  responseType?: 'json' | 'text';
+  method?: PlexHttpMethod;
+  data?: unknown;
+  maxRetries?: number;
+}
+
+export type PlexWriteMethod = 'POST' | 'PUT' | 'DELETE';
+
+export interface PlexWriteRequest {
+  method: PlexWriteMethod;
+  url: string;
+  body?: unknown;
+}
+
+export interface PlexWritePreview extends PlexWriteRequest {
+  headers: Record<string, string>;
+}
+
+export interface ShareSettings {
+  allowSync?: boolean;
+  filterMovies?: string;
+  filterTelevision?: string;
+  filterMusic?: string;
 }
 
 function buildHeaders(options: RequestOptions = {}): Record<string, string> {
@@ -53,55 +114,195 @@ function createRequestOptions(
   return options;
 }
 
-async function request<T>(url: string, options: RequestOptions = {}): Promise<T> {
-  const headers = buildHeaders(options);
-  const config: AxiosRequestConfig = {
-    headers,
-    timeout: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+export type DiagnosticReporter = (diagnostic: PlexDiagnostic) => void;
+
+export function describeRequestError(
+  error: unknown,
+  context: Pick<PlexDiagnostic, 'accountLabel' | 'server' | 'endpoint'>
+): PlexDiagnostic {
+  return {
+    ...context,
+    status: error instanceof PlexRequestError ? error.status : error instanceof CircuitOpenError ? error.lastStatus : null,
+    message: error instanceof Error ? error.message : String(error),
   };
+}
+
+function isAuthorizationStatus(error: unknown): boolean {
+  return error instanceof PlexRequestError && (error.status === 401 || error.status === 403);
+}
 
-  if (options.responseType) {
-    config.responseType = options.responseType;
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Everything one manager needs to talk to Plex: the plex.tv base URL, the transport, the
+ * retry policy, and its own circuit breakers and request counters. Each MCP session builds
+ * its own client, so one session's target never receives another session's tokens.
+ */
+export class PlexClient {
+  readonly apiBaseUrl: string;
+  private readonly transport: PlexTransport;
+  private readonly retry: RetryPolicy;
+  private readonly breakers: CircuitBreakerRegistry;
+  private readonly counters = { requests: 0, retries: 0, failures: 0, rateLimited: 0, shortCircuited: 0 };
+
+  constructor(settings: Partial<PlexClientSettings> = {}) {
+    this.apiBaseUrl = (settings.apiBaseUrl ?? DEFAULT_PLEX_API_BASE).replace(/\/+$/, '');
+    this.transport = settings.transport ?? axiosTransport;
+    this.retry = settings.retry ?? DEFAULT_RETRY_POLICY;
+    this.breakers = new CircuitBreakerRegistry(settings.circuitBreaker ?? DEFAULT_CIRCUIT_BREAKER_POLICY);
+  }
+
+  apiUrl(path: string): string {
+    return `${this.apiBaseUrl}${path}`;
+  }
+
+  getRequestStats(): RequestStats {
+    return { ...this.counters, breakers: this.breakers.status() };
   }
 
-  const response = await axios.get(url, config);
-  return response.data as T;
+  /**
+   * Sends a request through the configured transport. Idempotent GETs are retried on network
+   * errors, 5xx and 429 with jittered exponential backoff (or the server's Retry-After);
+   * writes are only retried on 429, which means the request was never processed. Every host
+   * (or plex.tv path family) has a circuit breaker so a dead server fails fast during its
+   * cooldown.
+   */
+  async request<T>(url: string, options: RequestOptions = {}): Promise<T> {
+    const method = options.method ?? 'GET';
+    const headers = buildHeaders(options);
+    const circuit = this.breakerKey(url);
+    const maxRetries = options.maxRetries ?? this.retry.maxRetries;
+    let data = options.data;
+
+    if (data instanceof URLSearchParams) {
+      data = data.toString();
+      headers['Content-Type'] = 'application/x-www-form-urlencoded';
+    } else if (data !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    for (let attempt = 0; ; attempt += 1) {
+      try {
+        this.breakers.acquire(circuit);
+      } catch (error) {
+        this.counters.shortCircuited += 1;
+        throw error;
+      }
+
+      this.counters.requests += 1;
+      let response: PlexHttpResponse;
+      try {
+        response = await this.transport({
+          method,
+          url,
+          headers,
+          data,
+          timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+          ...(options.responseType ? { responseType: options.responseType } : {}),
+        });
+      } catch (error) {
+        this.breakers.recordFailure(circuit, null, error instanceof Error ? error.message : String(error));
+        if (method !== 'GET' || attempt >= maxRetries) {
+          this.counters.failures += 1;
+          throw error;
+        }
+        this.counters.retries += 1;
+        await sleep(computeBackoffMs(attempt, this.retry));
+        continue;
+      }
+
+      if (response.status < 400) {
+        this.breakers.recordSuccess(circuit);
+        return response.data as T;
+      }
+
+      if (response.status >= 500) {
+        this.breakers.recordFailure(circuit, response.status, new PlexRequestError(method, url, response.status).message);
+      } else {
+        this.breakers.recordSuccess(circuit);
+      }
+      if (response.status === 429) {
+        this.counters.rateLimited += 1;
+      }
+
+      const retryable = response.status === 429 || (method === 'GET' && isRetryableStatus(response.status));
+      if (!retryable || attempt >= maxRetries) {
+        this.counters.failures += 1;
+        throw new PlexRequestError(method, url, response.status);
+      }
+
+      this.counters.retries += 1;
+      const retryAfterMs = parseRetryAfterMs(response.headers['retry-after']);
+      await sleep(Math.min(retryAfterMs ?? computeBackoffMs(attempt, this.retry), this.retry.maxDelayMs));
+    }
+  }
+
+  /**
+   * Media servers get one circuit breaker per host. plex.tv serves unrelated endpoints from
+   * one host, so its breakers are split by path family, with one per server under
+   * /api/servers/<machineIdentifier>.
+   */
+  private breakerKey(url: string): string {
+    const { host, pathname } = new URL(url);
+    if (host !== new URL(this.apiBaseUrl).host) {
+      return host;
+    }
+    const segments = pathname.split('/').filter(Boolean);
+    const family = segments[0] === 'api' ? segments.slice(0, 3) : segments.slice(0, 1);
+    return `${host}/${family.join('/')}`;
+  }
 }
 
 export async function validateToken(
+  client: PlexClient,
   token: string,
   logger: Logger,
-  clientIdentifier?: string
-): Promise<{ username: string; email: string } | null> {
+  clientIdentifier?: string,
+  report?: DiagnosticReporter
+): Promise<PlexAccountInfo | null> {
   try {
-    const data = await request<any>(
-      `${PLEX_API_BASE}/users/account.json`,
+    const data = await client.request<any>(
+      client.apiUrl('/users/account.json'),
       createRequestOptions(token, clientIdentifier)
     );
     const user = data?.user;
     if (!user) {
       return null;
     }
+    const subscription = user.subscription
+      ? {
+          active: Boolean(user.subscription.active),
+          status: user.subscription.status ?? null,
+          plan: user.subscription.plan ?? null,
+        }
+      : null;
     return {
       username: user.username || user.title,
       email: user.email,
+      plexPass: subscription?.active ?? Boolean(user.roles?.roles?.includes('plexpass')),
+      subscription,
     };
   } catch (error) {
     logger.warn('Token validation failed', {
       error_message: error instanceof Error ? error.message : String(error),
     });
+    report?.(describeRequestError(error, { accountLabel: null, server: null, endpoint: '/users/account.json' }));
     return null;
   }
 }
 
 export async function getResources(
+  client: PlexClient,
   token: string,
   logger: Logger,
-  clientIdentifier?: string
+  clientIdentifier?: string,
+  report?: DiagnosticReporter
 ): Promise<PlexResource[]> {
   try {
-    const xml = await request<string>(
-      `${PLEX_API_BASE}/pms/resources`,
+    const xml = await client.request<string>(
+      client.apiUrl('/pms/resources'),
       createRequestOptions(token, clientIdentifier, { responseType: 'text' })
     );
 
@@ -125,6 +326,8 @@ export async function getResources(
             address: conn.$?.address,
             port: parseInt(conn.$?.port ?? '0', 10),
             uri: conn.$?.uri,
+            local: conn.$?.local === '1',
+            relay: conn.$?.relay === '1',
           })),
         } satisfies PlexResource;
       });
@@ -132,52 +335,159 @@ export async function getResources(
     logger.error('Failed to fetch Plex resources', {
       error_message: error instanceof Error ? error.message : String(error),
     });
+    report?.(describeRequestError(error, { accountLabel: null, server: null, endpoint: '/pms/resources' }));
     return [];
   }
 }
 
-export async function connectToServer(
-  resource: PlexResource,
+function classifyConnection(connection: PlexServerConnection): PlexConnectionType {
+  if (connection.relay) {
+    return 'relay';
+  }
+  return connection.local ? 'local' : 'remote';
+}
+
+interface ConnectionCandidate {
+  connection: PlexServerConnection;
+  type: PlexConnectionType;
+  rank: number;
+}
+
+interface ConnectionProbe {
+  friendlyName: string | undefined;
+  latencyMs: number;
+}
+
+function rankConnections(connections: PlexServerConnection[], policy: ConnectionPolicy): ConnectionCandidate[] {
+  return connections
+    .filter((connection) => Boolean(connection?.uri))
+    .filter((connection) => !policy.httpsOnly || connection.protocol === 'https')
+    .map((connection) => {
+      const type = classifyConnection(connection);
+      return { connection, type, rank: policy.preference.indexOf(type) };
+    })
+    .filter((candidate) => candidate.rank !== -1);
+}
+
+async function probeConnection(
+  client: PlexClient,
+  candidate: ConnectionCandidate,
   token: string,
-  accountLabel: string,
   logger: Logger,
   clientIdentifier?: string
-): Promise<PlexServer | null> {
-  for (const connection of resource.connections) {
-    if (!connection?.uri) {
-      continue;
+): Promise<ConnectionProbe | null> {
+  const startedAt = Date.now();
+  try {
+    const data = await client.request<any>(
+      candidate.connection.uri,
+      createRequestOptions(token, clientIdentifier, { timeoutMs: CONNECTION_PROBE_TIMEOUT_MS, maxRetries: 0 })
+    );
+    if (!data?.MediaContainer) {
+      return null;
     }
-    try {
-      const data = await request<any>(
-        connection.uri,
-        createRequestOptions(token, clientIdentifier, { timeoutMs: 5000 })
-      );
-      if (data?.MediaContainer) {
-        return {
-          name: resource.name,
-          friendlyName: data.MediaContainer.friendlyName || resource.name,
-          machineIdentifier: resource.machineIdentifier,
-          host: connection.address,
-          port: connection.port,
-          scheme: connection.protocol,
-          uri: connection.uri,
-          product: resource.product,
-          version: resource.version,
-          platform: resource.platform,
-          owned: resource.owned,
-          accountLabel,
-        } satisfies PlexServer;
+    return { friendlyName: data.MediaContainer.friendlyName, latencyMs: Date.now() - startedAt };
+  } catch (error) {
+    logger.debug('Server connection attempt failed', {
+      server_uri: candidate.connection.uri,
+      connection_type: candidate.type,
+      error_message: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+interface ConnectionWinner {
+  candidate: ConnectionCandidate;
+  probe: ConnectionProbe;
+}
+
+function raceConnections(
+  client: PlexClient,
+  candidates: ConnectionCandidate[],
+  token: string,
+  logger: Logger,
+  clientIdentifier?: string
+): Promise<ConnectionWinner | null> {
+  return new Promise((resolve) => {
+    const pending = new Set(candidates);
+    let best: ConnectionWinner | null = null;
+
+    const settle = () => {
+      const pendingBestRank = Math.min(...Array.from(pending, (candidate) => candidate.rank));
+      if (pending.size === 0 || (best && best.candidate.rank <= pendingBestRank)) {
+        resolve(best);
       }
-    } catch (error) {
-      logger.debug('Server connection attempt failed', {
-        server_uri: connection.uri,
-        error_message: error instanceof Error ? error.message : String(error),
+    };
+
+    for (const candidate of candidates) {
+      probeConnection(client, candidate, token, logger, clientIdentifier).then((probe) => {
+        pending.delete(candidate);
+        if (
+          probe &&
+          (!best ||
+            candidate.rank < best.candidate.rank ||
+            (candidate.rank === best.candidate.rank && probe.latencyMs < best.probe.latencyMs))
+        ) {
+          best = { candidate, probe };
+        }
+        settle();
       });
     }
+  });
+}
+
+/**
+ * Probes every allowed connection in parallel and picks the most preferred type that
+ * answered, breaking ties by latency. Returns as soon as no pending probe could beat
+ * the current winner.
+ */
+export async function connectToServer(
+  client: PlexClient,
+  resource: PlexResource,
+  token: string,
+  accountLabel: string,
+  logger: Logger,
+  clientIdentifier?: string,
+  policy: ConnectionPolicy = DEFAULT_CONNECTION_POLICY,
+  report?: DiagnosticReporter
+): Promise<PlexServer | null> {
+  const candidates = rankConnections(resource.connections, policy);
+  const winner = candidates.length > 0 ? await raceConnections(client, candidates, token, logger, clientIdentifier) : null;
+
+  if (winner) {
+    const connection = winner.candidate.connection;
+    return {
+      name: resource.name,
+      friendlyName: winner.probe.friendlyName || resource.name,
+      machineIdentifier: resource.machineIdentifier,
+      host: connection.address,
+      port: connection.port,
+      scheme: connection.protocol,
+      uri: connection.uri,
+      product: resource.product,
+      version: resource.version,
+      platform: resource.platform,
+      owned: resource.owned,
+      accountLabel,
+      connectionType: winner.candidate.type,
+      latencyMs: winner.probe.latencyMs,
+    } satisfies PlexServer;
   }
+
   logger.warn('Unable to connect to Plex server resource', {
     machineIdentifier: resource.machineIdentifier,
     resource_name: resource.name,
+    candidates: candidates.length,
+  });
+  report?.({
+    accountLabel,
+    server: resource.name,
+    endpoint: 'connect',
+    status: null,
+    message:
+      candidates.length === 0
+        ? 'No connections allowed by the connection policy'
+        : `None of ${candidates.length} connection(s) responded`,
   });
   return null;
 }
@@ -214,19 +524,76 @@ function mapAccountNode(node: any, server: PlexServer, accountLabel: string): Pl
     serverIdentifier: server.machineIdentifier,
     serverName: server.friendlyName,
     accountLabel,
+    share: null,
   } satisfies PlexUserAccess;
 }
 
+function optionalString(value: unknown): string | null {
+  return typeof value === 'string' && value.length > 0 ? value : null;
+}
+
+function mapSectionNode(node: any): PlexLibrarySection {
+  const attrs = node.$ ?? node ?? {};
+  return {
+    id: attrs.id ? Number(attrs.id) : null,
+    key: String(attrs.key ?? ''),
+    title: attrs.title ?? '',
+    type: attrs.type ?? '',
+    shared: normalizeBoolean(attrs.shared) ?? false,
+  } satisfies PlexLibrarySection;
+}
+
+function mapShareDetails(entry: any): PlexShareDetails {
+  const attrs = entry.$ ?? {};
+  return {
+    sharedServerId: attrs.id ? Number(attrs.id) : null,
+    allLibraries: normalizeBoolean(attrs.allLibraries),
+    allowSync: normalizeBoolean(attrs.allowSync),
+    allowCameraUpload: normalizeBoolean(attrs.allowCameraUpload),
+    allowChannels: normalizeBoolean(attrs.allowChannels),
+    allowTuners: normalizeBoolean(attrs.allowTuners),
+    allowSubtitleAdmin: normalizeBoolean(attrs.allowSubtitleAdmin),
+    filterAll: optionalString(attrs.filterAll),
+    filterMovies: optionalString(attrs.filterMovies),
+    filterMusic: optionalString(attrs.filterMusic),
+    filterPhotos: optionalString(attrs.filterPhotos),
+    filterTelevision: optionalString(attrs.filterTelevision),
+    invitedAt: optionalString(attrs.invitedAt),
+    acceptedAt: optionalString(attrs.acceptedAt),
+    sections: (entry.Section ?? []).map(mapSectionNode),
+  } satisfies PlexShareDetails;
+}
+
+function mapSharedServerNode(entry: any, server: PlexServer, accountLabel: string): PlexUserAccess {
+  const attrs = entry.$ ?? {};
+  const user = mapAccountNode(entry, server, accountLabel);
+  if (attrs.userID) {
+    user.id = Number(attrs.userID);
+  }
+  user.share = mapShareDetails(entry);
+  return user;
+}
+
 export async function fetchServerUsers(
+  client: PlexClient,
   server: PlexServer,
   token: string,
   logger: Logger,
-  clientIdentifier?: string
+  clientIdentifier?: string,
+  report?: DiagnosticReporter
 ): Promise<PlexUserAccess[]> {
   const results: PlexUserAccess[] = [];
+  // Only the owner may list a server's accounts and shares, so auth failures on shared
+  // servers are expected and not worth reporting.
+  const reportFailure = (error: unknown, endpoint: string) => {
+    if (!server.owned && isAuthorizationStatus(error)) {
+      return;
+    }
+    report?.(describeRequestError(error, { accountLabel: server.accountLabel, server: server.friendlyName, endpoint }));
+  };
 
   try {
-    const data = await request<any>(
+    const data = await client.request<any>(
       `${server.uri}/accounts`,
       createRequestOptions(token, clientIdentifier)
     );
@@ -241,11 +608,12 @@ export async function fetchServerUsers(
       server: server.friendlyName,
       error_message: error instanceof Error ? error.message : String(error),
     });
+    reportFailure(error, '/accounts');
   }
 
   try {
-    const xml = await request<string>(
-      `${PLEX_API_BASE}/api/servers/${server.machineIdentifier}/shared_servers`,
+    const xml = await client.request<string>(
+      client.apiUrl(`/api/servers/${server.machineIdentifier}/shared_servers`),
       createRequestOptions(token, clientIdentifier, { responseType: 'text' })
     );
     const parsed = await parseStringPromise(xml);
@@ -253,11 +621,14 @@ export async function fetchServerUsers(
     for (const entry of sharedServers) {
       const sharedUsers = entry?.SharedUser ?? [];
       if (Array.isArray(sharedUsers) && sharedUsers.length > 0) {
+        const share = mapShareDetails(entry);
         for (const sharedUser of sharedUsers) {
-          results.push(mapAccountNode(sharedUser, server, server.accountLabel));
+          const user = mapAccountNode(sharedUser, server, server.accountLabel);
+          user.share = share;
+          results.push(user);
         }
       } else {
-        results.push(mapAccountNode(entry, server, server.accountLabel));
+        results.push(mapSharedServerNode(entry, server, server.accountLabel));
       }
     }
   } catch (error) {
@@ -265,21 +636,329 @@ export async function fetchServerUsers(
       server: server.friendlyName,
       error_message: error instanceof Error ? error.message : String(error),
     });
+    reportFailure(error, `/api/servers/${server.machineIdentifier}/shared_servers`);
+  }
+
+  return pairAccountRows(results);
+}
+
+/**
+ * Returns the most recent history entry for one account on a server, or null when the
+ * account has never played anything there. Reading history requires the owner's token.
+ */
+export async function fetchLastViewing(
+  client: PlexClient,
+  server: PlexServer,
+  token: string,
+  accountId: number,
+  logger: Logger,
+  clientIdentifier?: string,
+  report?: DiagnosticReporter
+): Promise<PlexViewing | null> {
+  const endpoint = '/status/sessions/history/all';
+  const query = new URLSearchParams({
+    accountID: String(accountId),
+    sort: 'viewedAt:desc',
+    'X-Plex-Container-Start': '0',
+    'X-Plex-Container-Size': '1',
+  });
+  try {
+    const data = await client.request<any>(`${server.uri}${endpoint}?${query}`, createRequestOptions(token, clientIdentifier));
+    const entry = data?.MediaContainer?.Metadata?.[0];
+    const viewedAt = Number(entry?.viewedAt);
+    if (!entry || !Number.isFinite(viewedAt)) {
+      return null;
+    }
+    const title = entry.grandparentTitle ? `${entry.grandparentTitle} — ${entry.title}` : (entry.title ?? null);
+    return {
+      accountId,
+      viewedAt: new Date(viewedAt * 1000).toISOString(),
+      title,
+      type: entry.type ?? null,
+    };
+  } catch (error) {
+    logger.warn('Failed to fetch watch history', {
+      server: server.friendlyName,
+      accountId,
+      error_message: error instanceof Error ? error.message : String(error),
+    });
+    report?.(describeRequestError(error, { accountLabel: server.accountLabel, server: server.friendlyName, endpoint }));
+    return null;
   }
+}
+
+function streamDecision(transcode: any): PlexStreamDecision {
+  if (!transcode) {
+    return 'direct_play';
+  }
+  const decisions = [transcode.videoDecision, transcode.audioDecision];
+  return decisions.includes('transcode') ? 'transcode' : 'direct_stream';
+}
+
+function mapSessionNode(entry: any): PlexSession {
+  const player = entry.Player ?? {};
+  const session = entry.Session ?? {};
+  const transcode = entry.TranscodeSession ?? null;
+  const bandwidth = session.bandwidth != null ? Number(session.bandwidth) : NaN;
+  return {
+    sessionId: optionalString(session.id) ?? (entry.sessionKey != null ? String(entry.sessionKey) : null),
+    accountId: entry.User?.id != null ? Number(entry.User.id) : null,
+    userTitle: optionalString(entry.User?.title),
+    title: entry.grandparentTitle ? `${entry.grandparentTitle} — ${entry.title}` : optionalString(entry.title),
+    type: optionalString(entry.type),
+    player: {
+      title: optionalString(player.title),
+      product: optionalString(player.product),
+      platform: optionalString(player.platform),
+      device: optionalString(player.device),
+      address: optionalString(player.address),
+      local: normalizeBoolean(player.local),
+      state: optionalString(player.state),
+    },
+    decision: streamDecision(transcode),
+    videoDecision: optionalString(transcode?.videoDecision),
+    audioDecision: optionalString(transcode?.audioDecision),
+    bandwidthKbps: Number.isFinite(bandwidth) ? bandwidth : null,
+    location: optionalString(session.location),
+  };
+}
+
+/**
+ * Lists the sessions currently playing on a server. Like history, this needs the owner's
+ * token; returns null when the request fails so callers can tell "idle" from "unknown".
+ */
+export async function fetchServerSessions(
+  client: PlexClient,
+  server: PlexServer,
+  token: string,
+  logger: Logger,
+  clientIdentifier?: string,
+  report?: DiagnosticReporter
+): Promise<PlexSession[] | null> {
+  const endpoint = '/status/sessions';
+  try {
+    const data = await client.request<any>(`${server.uri}${endpoint}`, createRequestOptions(token, clientIdentifier));
+    const entries = data?.MediaContainer?.Metadata ?? [];
+    return Array.isArray(entries) ? entries.map(mapSessionNode) : [];
+  } catch (error) {
+    logger.warn('Failed to fetch active sessions', {
+      server: server.friendlyName,
+      error_message: error instanceof Error ? error.message : String(error),
+    });
+    report?.(describeRequestError(error, { accountLabel: server.accountLabel, server: server.friendlyName, endpoint }));
+    return null;
+  }
+}
+
+function mapHomeUserNode(node: any, accountLabel: string): PlexHomeUser {
+  const attrs = node.$ ?? {};
+  return {
+    id: attrs.id ? Number(attrs.id) : null,
+    uuid: optionalString(attrs.uuid),
+    username: optionalString(attrs.username),
+    title: optionalString(attrs.title),
+    email: optionalString(attrs.email),
+    restricted: normalizeBoolean(attrs.restricted),
+    home: true,
+    guest: normalizeBoolean(attrs.guest),
+    canInvite: null,
+    serverIdentifier: homeServerIdentifier(accountLabel),
+    serverName: `Plex Home (${accountLabel})`,
+    accountLabel,
+    share: null,
+    admin: normalizeBoolean(attrs.admin),
+    protected: normalizeBoolean(attrs.protected),
+  };
+}
+
+/**
+ * Lists the members of the account's Plex Home: admins, regular members, and managed
+ * (restricted) profiles. An account outside any home yields an empty list.
+ */
+export async function fetchHomeUsers(
+  client: PlexClient,
+  accountLabel: string,
+  token: string,
+  logger: Logger,
+  clientIdentifier?: string,
+  report?: DiagnosticReporter
+): Promise<PlexHomeUser[] | null> {
+  const endpoint = '/api/home/users';
+  try {
+    const xml = await client.request<string>(
+      client.apiUrl(endpoint),
+      createRequestOptions(token, clientIdentifier, { responseType: 'text' })
+    );
+    const parsed = await parseStringPromise(xml);
+    return (parsed?.MediaContainer?.User ?? []).map((node: any) => mapHomeUserNode(node, accountLabel));
+  } catch (error) {
+    logger.warn('Failed to fetch home users', {
+      account: accountLabel,
+      error_message: error instanceof Error ? error.message : String(error),
+    });
+    report?.(describeRequestError(error, { accountLabel, server: null, endpoint }));
+    return null;
+  }
+}
 
-  const deduped = new Map<string, PlexUserAccess>();
-  for (const user of results) {
-    const keySource =
-      user.email ??
-      user.uuid ??
-      (user.username ? `${user.serverIdentifier}-${user.username}` : `${user.serverIdentifier}-${user.id ?? 'unknown'}`);
-    const key = keySource.toLowerCase();
-    if (!deduped.has(key)) {
-      deduped.set(key, user);
+/**
+ * Exchanges the account token for a token acting as another member of the same home.
+ * Protected members need their PIN.
+ */
+export async function switchHomeUser(
+  client: PlexClient,
+  token: string,
+  userId: number,
+  pin: string | undefined,
+  logger: Logger,
+  clientIdentifier?: string
+): Promise<string> {
+  const query = pin ? `?${new URLSearchParams({ pin })}` : '';
+  try {
+    const xml = await client.request<string>(
+      client.apiUrl(`/api/home/users/${userId}/switch${query}`),
+      createRequestOptions(token, clientIdentifier, { method: 'POST', responseType: 'text' })
+    );
+    const parsed = await parseStringPromise(xml);
+    const attrs = parsed?.user?.$ ?? {};
+    const switched = attrs.authenticationToken ?? attrs.authToken;
+    if (!switched) {
+      throw new Error(`plex.tv returned no token when switching to home user ${userId}`);
     }
+    return switched;
+  } catch (error) {
+    logger.error('Failed to switch home user', {
+      user_id: userId,
+      error_message: error instanceof Error ? error.message : String(error),
+    });
+    if (isAuthorizationStatus(error)) {
+      throw new Error(
+        `plex.tv refused to switch to home user ${userId}; ${pin ? 'check the PIN' : 'the member may be protected by a PIN'}`
+      );
+    }
+    throw error;
   }
+}
 
-  return Array.from(deduped.values());
+export async function getServerLibrarySections(
+  client: PlexClient,
+  machineIdentifier: string,
+  token: string,
+  logger: Logger,
+  clientIdentifier?: string
+): Promise<PlexLibrarySection[]> {
+  try {
+    const xml = await client.request<string>(
+      client.apiUrl(`/api/servers/${machineIdentifier}`),
+      createRequestOptions(token, clientIdentifier, { responseType: 'text' })
+    );
+    const parsed = await parseStringPromise(xml);
+    const server = parsed?.MediaContainer?.Server?.[0];
+    return (server?.Section ?? []).map(mapSectionNode);
+  } catch (error) {
+    logger.error('Failed to fetch server library sections', {
+      machineIdentifier,
+      error_message: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+}
+
+export function buildShareServerRequest(
+  client: PlexClient,
+  machineIdentifier: string,
+  email: string,
+  sectionIds: number[],
+  settings: ShareSettings = {}
+): PlexWriteRequest {
+  const sharingSettings: Record<string, string> = {};
+  if (typeof settings.allowSync === 'boolean') {
+    sharingSettings.allowSync = settings.allowSync ? '1' : '0';
+  }
+  if (settings.filterMovies) {
+    sharingSettings.filterMovies = settings.filterMovies;
+  }
+  if (settings.filterTelevision) {
+    sharingSettings.filterTelevision = settings.filterTelevision;
+  }
+  if (settings.filterMusic) {
+    sharingSettings.filterMusic = settings.filterMusic;
+  }
+
+  return {
+    method: 'POST',
+    url: client.apiUrl(`/api/servers/${machineIdentifier}/shared_servers`),
+    body: {
+      server_id: machineIdentifier,
+      shared_server: {
+        library_section_ids: sectionIds,
+        invited_email: email,
+      },
+      sharing_settings: sharingSettings,
+    },
+  };
+}
+
+export function buildRemoveShareRequest(
+  client: PlexClient,
+  machineIdentifier: string,
+  sharedServerId: number
+): PlexWriteRequest {
+  return {
+    method: 'DELETE',
+    url: client.apiUrl(`/api/servers/${machineIdentifier}/shared_servers/${sharedServerId}`),
+  };
+}
+
+export function buildUpdateShareRequest(
+  client: PlexClient,
+  machineIdentifier: string,
+  sharedServerId: number,
+  sectionIds: number[]
+): PlexWriteRequest {
+  return {
+    method: 'PUT',
+    url: client.apiUrl(`/api/servers/${machineIdentifier}/shared_servers/${sharedServerId}`),
+    body: {
+      server_id: machineIdentifier,
+      shared_server: {
+        library_section_ids: sectionIds,
+      },
+    },
+  };
+}
+
+export function previewWriteRequest(writeRequest: PlexWriteRequest, clientIdentifier?: string): PlexWritePreview {
+  const headers = buildHeaders(createRequestOptions('[REDACTED]', clientIdentifier));
+  if (writeRequest.body !== undefined) {
+    headers['Content-Type'] = 'application/json';
+  }
+  return { ...writeRequest, headers };
+}
+
+export async function executeWriteRequest<T>(
+  client: PlexClient,
+  writeRequest: PlexWriteRequest,
+  token: string,
+  logger: Logger,
+  clientIdentifier?: string
+): Promise<T> {
+  try {
+    return await client.request<T>(
+      writeRequest.url,
+      createRequestOptions(token, clientIdentifier, {
+        method: writeRequest.method,
+        data: writeRequest.body,
+      })
+    );
+  } catch (error) {
+    logger.error('Plex write request failed', {
+      method: writeRequest.method,
+      url: writeRequest.url,
+      error_message: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
 }
 
 export interface PlexPin {
@@ -290,22 +969,19 @@ export interface PlexPin {
   authToken: string | null;
 }
 
-export async function createAuthPin(clientIdentifier?: string, logger?: Logger): Promise<PlexPin> {
+export async function createAuthPin(
+  client: PlexClient,clientIdentifier?: string, logger?: Logger): Promise<PlexPin> {
   const identifier = clientIdentifier ?? uuidv4();
   try {
-    const response = await axios.post(
-      `${PLEX_API_BASE}/api/v2/pins`,
-      new URLSearchParams({ strong: 'true' }),
-      {
-        headers: {
-          ...buildHeaders({ clientIdentifier: identifier }),
-          'Content-Type': 'application/x-www-form-urlencoded',
-        },
-        timeout: DEFAULT_TIMEOUT_MS,
-      }
+    const data = await client.request<any>(
+      client.apiUrl('/api/v2/pins'),
+      createRequestOptions(undefined, identifier, {
+        method: 'POST',
+        data: new URLSearchParams({ strong: 'true' }),
+      })
     );
 
-    const pin = response.data?.pin;
+    const pin = data?.pin ?? data;
     return {
       id: pin.id,
       code: pin.code,
@@ -330,16 +1006,14 @@ export interface PlexPinStatus {
 }
 
 export async function checkAuthPin(
+  client: PlexClient,
   id: number,
   clientIdentifier: string,
   logger?: Logger
 ): Promise<PlexPinStatus> {
   try {
-    const response = await axios.get(`${PLEX_API_BASE}/api/v2/pins/${id}`, {
-      headers: buildHeaders({ clientIdentifier }),
-      timeout: DEFAULT_TIMEOUT_MS,
-    });
-    const pin = response.data?.pin;
+    const data = await client.request<any>(client.apiUrl(`/api/v2/pins/${id}`), createRequestOptions(undefined, clientIdentifier));
+    const pin = data?.pin ?? data;
     return {
       id: pin.id,
       code: pin.code,
@@ -0,0 +1,91 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createDemoDataset, startFakePlexServer } from './fakePlexServer.js';
+import type { FakePlexServerHandle } from './fakePlexServer.js';
+import { Logger } from './logger.js';
+import { PlexClient } from './plexClient.js';
+import { PlexAccountManager } from './plexManager.js';
+
+// Runs the manager end to end against the fake backend's demo dataset.
+const logger = new Logger('error');
+let fake: FakePlexServerHandle;
+let manager: PlexAccountManager;
+
+before(() => {
+  fake = startFakePlexServer(32490, logger, createDemoDataset());
+  manager = new PlexAccountManager(
+    fake.dataset.accounts.map(({ label, token }) => ({ label, token })),
+    {
+      cacheTtlMs: 60_000,
+      client: new PlexClient({ apiBaseUrl: fake.url, retry: { maxRetries: 0, baseDelayMs: 1, maxDelayMs: 1 } }),
+    },
+    logger
+  );
+});
+
+after(() => fake.close());
+
+test('builds profiles across servers and Plex Home', async () => {
+  const { profiles } = await manager.getUserProfiles('alice');
+  const [alice] = profiles;
+
+  assert.equal(profiles.length, 1);
+  assert.deepEqual(
+    alice?.servers.map((server) => `${server.serverName}/${server.accountLabel}`),
+    ['Basement/primary', 'Cabin/secondary']
+  );
+  assert.deepEqual(alice?.homes, ['primary']);
+
+  const [kids] = (await manager.getUserProfiles('kids')).profiles;
+  assert.deepEqual(kids?.servers, []);
+  assert.deepEqual(kids?.homes, ['primary']);
+});
+
+test('reports normalized and Home-only hits in bulk lookups', async () => {
+  const result = await manager.bulkLookup(['alice@example.com', 'Alice+tv@example.com', 'kids', 'nobody@example.com']);
+
+  assert.deepEqual(
+    result.entries.map((entry) => [entry.status, entry.confidence]),
+    [
+      ['exact', 1],
+      ['normalized', 0.9],
+      ['exact', 1],
+      ['not_found', 0],
+    ]
+  );
+  assert.deepEqual(result.normalized, ['Alice+tv@example.com']);
+  assert.deepEqual(result.notFound, ['nobody@example.com']);
+});
+
+test('marks matrix columns for shared servers as unknown', async () => {
+  const { columns } = await manager.getAccessMatrix();
+
+  assert.deepEqual(
+    columns.map((column) => [column.serverName, column.accountLabel, column.usersKnown]),
+    [
+      ['Basement', 'primary', true],
+      ['Cabin', 'primary', false],
+      ['Cabin', 'secondary', true],
+    ]
+  );
+});
+
+test('rejects unknown libraries before previewing a share', async () => {
+  await assert.rejects(
+    manager.shareServer({
+      accountLabel: 'primary',
+      machineIdentifier: 'demo-basement',
+      email: 'erin@example.com',
+      libraries: ['Movies', 'Nope'],
+    }),
+    /Unknown libraries: Nope/
+  );
+});
+
+test('registers switched Home tokens without returning them', async () => {
+  const result = await manager.switchToHomeUser({ accountLabel: 'primary', user: 'alice', pin: '1234' });
+
+  assert.equal(result.registered.label, 'primary-home-2001');
+  assert.equal('token' in result, false);
+  assert.ok(manager.listAccounts().some((account) => account.label === 'primary-home-2001'));
+});
@@ -1,214 +1,2013 @@
 import { createHash } from 'crypto';
-import Fuse from 'fuse.js';
 import { Logger } from './logger.js';
 import { TTLCache } from './cache.js';
+import { createLimiter, Deadline, DEADLINE_EXCEEDED } from './concurrency.js';
+import type { Limiter } from './concurrency.js';
+import type { RequestStats } from './resilience.js';
+import { normalizeEmail } from './email.js';
+import { buildProfile, groupUserIdentities, groupUserRows, isHomeRow, linkKeys } from './identity.js';
+import { AccessHistory, diffAccess, toAccessRecord } from './accessHistory.js';
+import type { AccessDiff, AccessRecord, AccessSnapshot, AccessSnapshotSummary } from './accessHistory.js';
+import type { SnapshotEntry, SnapshotStore } from './snapshotStore.js';
+import type { StoredAccount, TokenStore } from './tokenStore.js';
+import { TokenHealthTracker } from './tokenHealth.js';
+import { matchUsers, NORMALIZED_EMAIL_SCORE, parseUserQuery } from './userQuery.js';
+import type { ClauseMatch, MatchMode, ParsedQuery, QueryClause, QueryFilters, QueryMatch } from './userQuery.js';
+import type { TokenCheckOutcome, TokenHealth } from './tokenHealth.js';
 import {
   checkAuthPin,
   connectToServer,
+  buildRemoveShareRequest,
+  buildShareServerRequest,
+  buildUpdateShareRequest,
   createAuthPin,
+  DEFAULT_CONNECTION_POLICY,
+  executeWriteRequest,
+  fetchHomeUsers,
+  fetchLastViewing,
+  fetchServerSessions,
   fetchServerUsers,
+  getServerLibrarySections,
   getResources,
+  switchHomeUser,
   validateToken,
   buildAuthUrl,
+  previewWriteRequest,
+  PlexClient,
 } from './plexClient.js';
-import type { PlexPin, PlexPinStatus } from './plexClient.js';
-import type { ConfigAccount, PlexServer, PlexUserAccess } from './types.js';
+import type { PlexPin, PlexPinStatus, PlexWritePreview, PlexWriteRequest, ShareSettings } from './plexClient.js';
+import type {
+  ConfigAccount,
+  ConnectionPolicy,
+  PlexDiagnostic,
+  PlexHomeUser,
+  PlexLibrarySection,
+  PlexServer,
+  PlexSession,
+  PlexShareDetails,
+  PlexUserAccess,
+  PlexUserProfile,
+  PlexViewing,
+} from './types.js';
 
 export interface ManagerOptions {
   cacheTtlMs: number;
+  client?: PlexClient;
+  concurrency?: number;
+  discoveryTimeoutMs?: number;
+  connectionPolicy?: ConnectionPolicy;
+  snapshotStore?: SnapshotStore;
+  accessHistory?: AccessHistory;
+  tokenStore?: TokenStore;
+  healthCheckIntervalMs?: number;
 }
 
-export interface SearchOptions {
+export interface PendingServer {
+  name: string;
+  machineIdentifier: string;
+  accountLabel: string;
+  stage: 'connect' | 'users';
+}
+
+export interface DiscoveryReport {
+  complete: boolean;
+  startedAt: string;
+  durationMs: number;
+  timeoutMs: number;
+  concurrency: number;
+  pendingAccounts: string[];
+  pendingServers: PendingServer[];
+  errors: PlexDiagnostic[];
+}
+
+interface DiscoveryRun {
+  deadline: Deadline;
+  limit: Limiter;
+  startedAt: number;
+  report: DiscoveryReport;
+  // `machineIdentifier:accountLabel` keys and account labels whose data is partial this run.
+  incompleteServers: Set<string>;
+  incompleteAccounts: Set<string>;
+}
+
+interface CacheIssues {
+  errors: PlexDiagnostic[];
+  incompleteServers: string[];
+}
+
+export interface AccessDiffOptions {
+  from?: string;
+  sinceDays?: number;
+  to?: string;
+  refresh?: boolean;
+}
+
+export interface AccessDiffResult extends AccessDiff {
+  from: AccessSnapshotSummary;
+  to: AccessSnapshotSummary | { id: 'live'; recordedAt: string; userCount: number };
+  snapshots: AccessSnapshotSummary[];
+  // One entry per server left out of a live diff because its user list was incomplete.
+  errors: PlexDiagnostic[];
+}
+
+export interface SnapshotStatus {
+  path: string;
+  loadedSnapshotSavedAt: string | null;
+  lastSavedAt: string | null;
+  oldestEntryAt: string | null;
+  ageSeconds: number | null;
+}
+
+export interface SearchOptions extends QueryFilters {
   maxResults?: number;
   refresh?: boolean;
+  mode?: MatchMode;
 }
 
 export interface SearchResult {
   matches: Array<{
     score: number;
     user: PlexUserAccess;
-    matchDetails: Array<Record<string, unknown>>;
+    matchDetails: ClauseMatch[];
   }>;
   totalMatched: number;
   totalSearched: number;
 }
 
-export interface AccountValidationResult {
-  label: string;
-  valid: boolean;
-  username?: string;
-  email?: string;
+export interface ProfileResult {
+  profiles: PlexUserProfile[];
+  totalProfiles: number;
+}
+
+export type LibraryAccessOptions = SearchOptions;
+
+export interface AccessInventoryOptions {
+  accountLabel?: string;
+  server?: string;
+  refresh?: boolean;
+}
+
+export interface LibraryAccessEntry {
+  user: PlexUserAccess;
+  serverIdentifier: string;
+  serverName: string;
+  accountLabel: string;
+  libraries: string[];
+  share: PlexShareDetails | null;
+}
+
+export interface LibraryAccessResult {
+  entries: LibraryAccessEntry[];
+  totalMatched: number;
+}
+
+export interface BulkLookupOptions {
+  fuzzyFallback?: boolean;
+  refresh?: boolean;
+}
+
+export type BulkLookupStatus = 'exact' | 'normalized' | 'ambiguous' | 'not_found' | 'invalid';
+
+export interface BulkLookupSuggestion {
+  profile: PlexUserProfile;
+  confidence: number;
+}
+
+export interface BulkLookupEntry {
+  input: string;
+  status: BulkLookupStatus;
+  confidence: number;
+  profile: PlexUserProfile | null;
+  candidates: number;
+  suggestions: BulkLookupSuggestion[];
+}
+
+export interface BulkLookupResult {
+  entries: BulkLookupEntry[];
+  found: number;
+  normalized: string[];
+  notFound: string[];
+  invalid: string[];
+  totalUsers: number;
+}
+
+export interface InactiveUsersOptions {
+  days: number;
+  server?: string;
+  refresh?: boolean;
+}
+
+export interface InactiveUserEntry {
+  user: PlexUserAccess;
+  serverIdentifier: string;
+  serverName: string;
+  accountLabel: string;
+  lastSeenAt: string | null;
+  lastTitle: string | null;
+  daysSinceSeen: number | null;
+}
+
+export interface InactiveUsersResult {
+  days: number;
+  cutoff: string;
+  entries: InactiveUserEntry[];
+  checkedUsers: number;
+  unknownUsers: number;
+  skippedServers: Array<{ name: string; machineIdentifier: string; accountLabel: string }>;
+  errors: PlexDiagnostic[];
+}
+
+export interface NowPlayingOptions {
+  server?: string;
+  refresh?: boolean;
+}
+
+export interface NowPlayingEntry {
+  session: PlexSession;
+  profile: PlexUserProfile | null;
+  serverIdentifier: string;
+  serverName: string;
+  accountLabel: string;
+}
+
+export interface NowPlayingResult {
+  sessions: NowPlayingEntry[];
+  totalBandwidthKbps: number;
+  checkedServers: number;
+  skippedServers: Array<{ name: string; machineIdentifier: string; accountLabel: string }>;
+  errors: PlexDiagnostic[];
+}
+
+export interface AccessMatrixOptions {
+  missingFrom?: string;
+  serverCount?: number;
+  refresh?: boolean;
+}
+
+export interface AccessMatrixColumn {
+  serverIdentifier: string;
+  serverName: string;
+  accountLabel: string;
+  usersKnown: boolean;
+}
+
+export interface AccessMatrixRow {
+  profile: PlexUserProfile;
+  // null when the column's users are unknown (shared server or failed fetch) and the person was not seen in it.
+  present: Array<boolean | null>;
+  serverCount: number;
+}
+
+export interface AccessMatrix {
+  columns: AccessMatrixColumn[];
+  rows: AccessMatrixRow[];
+  totalIdentities: number;
+}
+
+export interface ShareServerOptions {
+  accountLabel: string;
+  machineIdentifier: string;
+  email: string;
+  libraries?: string[];
+  settings?: ShareSettings;
+  confirm?: boolean;
+}
+
+export interface ShareServerResult {
+  dryRun: boolean;
+  accountLabel: string;
+  machineIdentifier: string;
+  email: string;
+  libraries: PlexLibrarySection[];
+  request: PlexWritePreview;
+  response?: unknown;
+}
+
+export interface RevokeAccessOptions {
+  userId: number;
+  server?: string;
+  confirm?: boolean;
+}
+
+export interface UpdateShareOptions {
+  userId: number;
+  server: string;
+  libraries: string[];
+  confirm?: boolean;
+}
+
+export interface ShareChange {
+  action: 'remove' | 'update';
+  serverIdentifier: string;
+  serverName: string;
+  accountLabel: string;
+  sharedServerId: number;
+  librariesBefore: string[];
+  librariesAfter: string[];
+  librariesAdded: string[];
+  librariesRemoved: string[];
+  request: PlexWritePreview;
+  applied: boolean;
+  error: string | null;
+}
+
+export interface ShareChangeResult {
+  dryRun: boolean;
+  userId: number;
+  user: Pick<PlexUserAccess, 'username' | 'email' | 'title'>;
+  changes: ShareChange[];
+  failed: number;
+}
+
+interface PlannedShareChange {
+  row: PlexUserAccess;
+  request: PlexWriteRequest;
+  change: Pick<ShareChange, 'action' | 'librariesBefore' | 'librariesAfter' | 'librariesAdded' | 'librariesRemoved'>;
 }
 
 export interface AuthPinResult {
   pin: PlexPin;
   authorizationUrl: string;
+  accountLabel: string | null;
+}
+
+export type AccountSource = 'config' | 'store' | 'runtime';
+
+export interface AccountSummary {
+  label: string;
+  source: AccountSource;
+  clientIdentifier: string;
+  addedAt: string | null;
+  lastValidatedAt: string | null;
+  username: string | null;
+  email: string | null;
+}
+
+export interface AuthPinCheckResult {
+  status: PlexPinStatus;
+  accountLabel: string | null;
+  registered: AccountSummary | null;
+  registrationError: string | null;
+}
+
+export interface HomeUsersOptions {
+  accountLabel?: string;
+  refresh?: boolean;
+}
+
+export interface PlexHome {
+  accountLabel: string;
+  members: PlexHomeUser[];
+}
+
+export interface HomeUsersResult {
+  homes: PlexHome[];
+  errors: PlexDiagnostic[];
+}
+
+export interface SwitchHomeUserOptions {
+  accountLabel: string;
+  user: string;
+  pin?: string;
+  label?: string;
+}
+
+export interface SwitchHomeUserResult {
+  accountLabel: string;
+  member: PlexHomeUser;
+  registered: AccountSummary;
 }
 
+interface ManagedAccount extends ConfigAccount {
+  clientIdentifier: string;
+  source: AccountSource;
+  addedAt: number | null;
+  lastValidatedAt: number | null;
+  username: string | null;
+  email: string | null;
+}
+
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_DISCOVERY_TIMEOUT_MS = 60000;
+
 function deterministicIdentifier(label: string): string {
   const hash = createHash('sha1').update(label).digest('hex');
   return hash.slice(0, 32);
 }
 
+function hasQueryFilters(filters: QueryFilters): boolean {
+  return (
+    Boolean(filters.server) ||
+    Boolean(filters.accountLabel) ||
+    [filters.restricted, filters.home, filters.guest, filters.canInvite, filters.owned].some(
+      (value) => value !== undefined
+    )
+  );
+}
+
+function matchesServer(user: PlexUserAccess, server: string): boolean {
+  const needle = server.trim().toLowerCase();
+  return user.serverIdentifier.toLowerCase() === needle || user.serverName.toLowerCase() === needle;
+}
+
+function profileName(profile: PlexUserProfile): string {
+  return profile.emails[0] ?? profile.usernames[0] ?? profile.titles[0] ?? profile.key;
+}
+
+export function sharedLibraryTitles(share: PlexShareDetails | null): string[] {
+  if (!share) {
+    return [];
+  }
+  return share.sections.filter((section) => section.shared).map((section) => section.title);
+}
+
+function summarizeAccount(account: ManagedAccount): AccountSummary {
+  return {
+    label: account.label,
+    source: account.source,
+    clientIdentifier: account.clientIdentifier,
+    addedAt: toIsoString(account.addedAt),
+    lastValidatedAt: toIsoString(account.lastValidatedAt),
+    username: account.username,
+    email: account.email,
+  };
+}
+
+function toIsoString(timestamp: number | null): string | null {
+  return timestamp === null ? null : new Date(timestamp).toISOString();
+}
+
+export function resolveLibrarySections(
+  available: PlexLibrarySection[],
+  requested: string[] | undefined
+): PlexLibrarySection[] {
+  if (requested === undefined) {
+    return available;
+  }
+  if (requested.length === 0) {
+    throw new Error('At least one library is required; omit libraries to share every library');
+  }
+
+  const resolved: PlexLibrarySection[] = [];
+  const missing: string[] = [];
+  for (const name of requested) {
+    const needle = name.trim().toLowerCase();
+    const section = available.find(
+      (candidate) =>
+        candidate.title.toLowerCase() === needle ||
+        candidate.key === needle ||
+        (candidate.id !== null && String(candidate.id) === needle)
+    );
+    if (section) {
+      if (!resolved.includes(section)) {
+        resolved.push(section);
+      }
+    } else {
+      missing.push(name);
+    }
+  }
+
+  if (missing.length > 0) {
+    const titles = available.map((section) => section.title).join(', ') || 'none';
+    throw new Error(`Unknown libraries: ${missing.join(', ')}. Available libraries: ${titles}`);
+  }
+  return resolved;
+}
+
+/** Section ids to share. Throws rather than silently sharing fewer libraries than asked. */
+function librarySectionIds(libraries: PlexLibrarySection[]): number[] {
+  const unresolved = libraries.filter((section) => section.id === null).map((section) => section.title);
+  if (unresolved.length > 0) {
+    throw new Error(`Plex did not report a section id for libraries: ${unresolved.join(', ')}; they cannot be shared`);
+  }
+  return libraries.map((section) => section.id as number);
+}
+
 export class PlexAccountManager {
-  private readonly accounts: Array<ConfigAccount & { clientIdentifier: string }>;
+  private readonly accounts: ManagedAccount[];
+  private readonly pendingPinLabels = new Map<number, string>();
   private readonly logger: Logger;
   private readonly serverCache: TTLCache<string, PlexServer[]>;
   private readonly userCache: TTLCache<string, PlexUserAccess[]>;
+  private readonly viewingCache: TTLCache<string, PlexViewing | null>;
+  private readonly homeCache: TTLCache<string, PlexHomeUser[]>;
+  private readonly snapshotStore: SnapshotStore | undefined;
+  private readonly tokenStore: TokenStore | undefined;
+  private readonly tokenHealth = new TokenHealthTracker();
+  private readonly healthCheckIntervalMs: number;
+  private healthTimer: NodeJS.Timeout | null = null;
+  private healthCheck: Promise<TokenHealth[]> | null = null;
+  private readonly accessHistory: AccessHistory;
+  private readonly client: PlexClient;
+  private readonly cacheTtlMs: number;
+  private readonly fetchedAt = new Map<string, number>();
+  private readonly cacheIssues = new Map<string, CacheIssues>();
+  private readonly knownServers = new Map<string, PlexServer>();
+  private loadedSnapshotSavedAt: number | null = null;
+  private lastSnapshotSavedAt: number | null = null;
+  private readonly concurrency: number;
+  private readonly discoveryTimeoutMs: number;
+  private readonly connectionPolicy: ConnectionPolicy;
+  private lastDiscovery: DiscoveryReport | null = null;
+  private readonly inventoryListeners: Array<() => void> = [];
+  private readonly inventoryKeys = new Map<'servers' | 'users', Set<string>>();
 
   constructor(accounts: ConfigAccount[], options: ManagerOptions, logger: Logger) {
     this.logger = logger.child('manager');
     this.accounts = accounts.map((account) => ({
       ...account,
       clientIdentifier: account.clientIdentifier ?? deterministicIdentifier(account.label),
+      source: 'config',
+      addedAt: null,
+      lastValidatedAt: null,
+      username: null,
+      email: null,
     }));
+    this.tokenStore = options.tokenStore;
+    this.healthCheckIntervalMs = options.healthCheckIntervalMs ?? 0;
+    this.client = options.client ?? new PlexClient();
+    this.loadStoredAccounts();
+    this.cacheTtlMs = options.cacheTtlMs;
     this.serverCache = new TTLCache<string, PlexServer[]>(options.cacheTtlMs);
     this.userCache = new TTLCache<string, PlexUserAccess[]>(options.cacheTtlMs);
+    this.viewingCache = new TTLCache<string, PlexViewing | null>(options.cacheTtlMs);
+    this.homeCache = new TTLCache<string, PlexHomeUser[]>(options.cacheTtlMs);
+    this.concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+    this.discoveryTimeoutMs = options.discoveryTimeoutMs ?? DEFAULT_DISCOVERY_TIMEOUT_MS;
+    this.connectionPolicy = options.connectionPolicy ?? DEFAULT_CONNECTION_POLICY;
+    this.snapshotStore = options.snapshotStore;
+    this.accessHistory = options.accessHistory ?? new AccessHistory({ maxSnapshots: 100 }, this.logger);
+    this.loadSnapshot();
   }
 
   getAccountCount(): number {
     return this.accounts.length;
   }
 
-  async validateAccounts(): Promise<AccountValidationResult[]> {
-    const results: AccountValidationResult[] = [];
-    for (const account of this.accounts) {
-      const info = await validateToken(account.token, this.logger.child('validate'), account.clientIdentifier);
-      if (info) {
-        results.push({
-          label: account.label,
-          valid: true,
-          username: info.username,
-          email: info.email,
-        });
-      } else {
-        results.push({ label: account.label, valid: false });
-      }
+  listAccounts(): AccountSummary[] {
+    return this.accounts.map(summarizeAccount);
+  }
+
+  async registerAccount(account: ConfigAccount): Promise<AccountSummary> {
+    this.assertLabelAvailable(account.label);
+    const clientIdentifier = account.clientIdentifier ?? deterministicIdentifier(account.label);
+    const info = await validateToken(this.client, account.token, this.logger.child('validate'), clientIdentifier);
+    if (!info) {
+      throw new Error(`Token for account ${account.label} failed validation against plex.tv`);
     }
-    return results;
+    // Re-check: another registration may have claimed the label while validating.
+    this.assertLabelAvailable(account.label);
+
+    const now = Date.now();
+    const managed: ManagedAccount = {
+      label: account.label,
+      token: account.token,
+      clientIdentifier,
+      source: this.tokenStore ? 'store' : 'runtime',
+      addedAt: now,
+      lastValidatedAt: now,
+      username: info.username ?? null,
+      email: info.email ?? null,
+    };
+    this.accounts.push(managed);
+    this.tokenHealth.record(managed.label, { kind: 'valid', info }, now);
+    this.logger.info('Registered account', { label: managed.label, source: managed.source, username: managed.username });
+    await this.persistStoredAccounts();
+    this.notifyInventoryChanged();
+    return summarizeAccount(managed);
   }
 
-  async getServers(refresh = false): Promise<PlexServer[]> {
-    const aggregated: PlexServer[] = [];
-    const seen = new Set<string>();
+  async relabelAccount(label: string, newLabel: string): Promise<AccountSummary> {
+    const account = this.findRuntimeAccount(label);
+    this.assertLabelAvailable(newLabel);
+    account.label = newLabel;
+    this.tokenHealth.rename(label, newLabel);
+    this.clearCaches();
+    this.logger.info('Relabeled account', { from: label, to: newLabel });
+    await this.persistStoredAccounts();
+    this.notifyInventoryChanged();
+    return summarizeAccount(account);
+  }
 
-    for (const account of this.accounts) {
-      const cacheKey = `servers:${account.label}`;
-      let servers = this.serverCache.get(cacheKey);
-      if (!servers || refresh) {
-        this.logger.info('Loading servers for account', { label: account.label });
-        const resources = await getResources(account.token, this.logger.child('resources'), account.clientIdentifier);
-        const connected: PlexServer[] = [];
-        for (const resource of resources) {
-          const server = await connectToServer(
-            resource,
-            account.token,
-            account.label,
-            this.logger.child('connect'),
-            account.clientIdentifier
-          );
-          if (server) {
-            connected.push(server);
-          }
-        }
-        servers = connected;
-        this.serverCache.set(cacheKey, servers);
-      }
+  async removeAccount(label: string): Promise<AccountSummary> {
+    const account = this.findRuntimeAccount(label);
+    this.accounts.splice(this.accounts.indexOf(account), 1);
+    this.tokenHealth.delete(label);
+    this.clearCaches();
+    this.logger.info('Removed account', { label });
+    await this.persistStoredAccounts();
+    this.notifyInventoryChanged();
+    return summarizeAccount(account);
+  }
 
-      for (const server of servers) {
-        const key = `${server.machineIdentifier}:${account.label}`;
-        if (!seen.has(key)) {
-          seen.add(key);
-          aggregated.push(server);
-        }
-      }
+  /**
+   * Registers a listener called when the set of accounts, servers, or users changes. Only
+   * refreshed data is compared, so serving from cache never fires it.
+   */
+  onInventoryChanged(listener: () => void): void {
+    this.inventoryListeners.push(listener);
+  }
+
+  getRequestStats(): RequestStats {
+    return this.client.getRequestStats();
+  }
+
+  getDiscoveryReport(): DiscoveryReport | null {
+    return this.lastDiscovery;
+  }
+
+  /**
+   * Returns cached token health, validating first when asked to or when some account has
+   * never been checked.
+   */
+  async getTokenHealth(refresh = false): Promise<TokenHealth[]> {
+    if (refresh || this.accounts.some((account) => !this.tokenHealth.has(account.label))) {
+      return this.validateAccounts();
     }
+    return this.accounts.map((account) => this.tokenHealth.get(account.label));
+  }
 
-    return aggregated;
+  /**
+   * Validates every account token against plex.tv. Overlapping calls (for example a tool
+   * call during a background check) share one run.
+   */
+  validateAccounts(): Promise<TokenHealth[]> {
+    if (!this.healthCheck) {
+      this.healthCheck = this.runHealthCheck().finally(() => {
+        this.healthCheck = null;
+      });
+    }
+    return this.healthCheck;
+  }
+
+  startHealthMonitor(): void {
+    if (this.healthCheckIntervalMs <= 0 || this.healthTimer) {
+      return;
+    }
+    const check = () => {
+      this.validateAccounts().catch((error) => {
+        this.logger.warn('Background token validation failed', {
+          error_message: error instanceof Error ? error.message : String(error),
+        });
+      });
+    };
+    this.healthTimer = setInterval(check, this.healthCheckIntervalMs);
+    this.healthTimer.unref();
+    this.logger.info('Token health monitor started', { interval_ms: this.healthCheckIntervalMs });
+    check();
+  }
+
+  stopHealthMonitor(): void {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = null;
+    }
+  }
+
+  async getServers(refresh = false): Promise<PlexServer[]> {
+    const run = this.startDiscovery();
+    const servers = await this.discoverServers(refresh, run);
+    this.finishDiscovery(run);
+    return servers;
   }
 
   async getUsersAcrossServers(refresh = false): Promise<PlexUserAccess[]> {
-    const servers = await this.getServers(refresh);
-    const users: PlexUserAccess[] = [];
+    return (await this.discoverUsers(refresh)).users;
+  }
+
+  /**
+   * Loads servers and their users in one discovery run, so callers that need both see a
+   * single report. `isIncomplete` tells whether the user list for a
+   * `machineIdentifier:accountLabel` key is missing or partial in this run.
+   */
+  private async discoverUsers(
+    refresh: boolean
+  ): Promise<{ servers: PlexServer[]; users: PlexUserAccess[]; isIncomplete: (key: string) => boolean }> {
+    const run = this.startDiscovery();
+    const servers = await this.discoverServers(refresh, run);
+    const usersLogger = this.logger.child('users');
+    let refreshed = false;
+
+    const perServer = await Promise.all(
+      servers.map(async (server) => {
+        const cacheKey = `users:${server.machineIdentifier}:${server.accountLabel}`;
+        const serverKey = `${server.machineIdentifier}:${server.accountLabel}`;
+        const cached = this.userCache.get(cacheKey);
+        if (cached && !refresh) {
+          this.replayCacheIssues(cacheKey, run);
+          return cached;
+        }
 
-    for (const server of servers) {
-      const cacheKey = `users:${server.machineIdentifier}:${server.accountLabel}`;
-      let cached = this.userCache.get(cacheKey);
-      if (!cached || refresh) {
         this.logger.info('Fetching users for server', {
           server: server.friendlyName,
           account: server.accountLabel,
         });
-        cached = await fetchServerUsers(
-          server,
-          this.findTokenForAccount(server.accountLabel),
-          this.logger.child('users'),
-          this.findClientIdentifier(server.accountLabel)
+        const errors: PlexDiagnostic[] = [];
+        const fetched = await run.deadline.race(
+          run.limit(() =>
+            fetchServerUsers(
+              this.client,
+              server,
+              this.findTokenForAccount(server.accountLabel),
+              usersLogger,
+              this.findClientIdentifier(server.accountLabel),
+              (diagnostic) => errors.push(diagnostic)
+            )
+          )
         );
-        this.userCache.set(cacheKey, cached);
-      }
+        if (fetched === DEADLINE_EXCEEDED) {
+          run.report.pendingServers.push({
+            name: server.friendlyName,
+            machineIdentifier: server.machineIdentifier,
+            accountLabel: server.accountLabel,
+            stage: 'users',
+          });
+          run.incompleteServers.add(serverKey);
+          return cached ?? [];
+        }
 
-      users.push(...cached);
+        // Partial results are cached with their diagnostics, so one failing endpoint does
+        // not send every call back to Plex; the diagnostics are replayed on cache hits.
+        run.report.errors.push(...errors);
+        if (errors.length > 0) {
+          run.incompleteServers.add(serverKey);
+        }
+        this.cacheResult(this.userCache, cacheKey, fetched, {
+          errors,
+          incompleteServers: errors.length > 0 ? [serverKey] : [],
+        });
+        refreshed = true;
+        return fetched;
+      })
+    );
+
+    const users = perServer.flat();
+    this.finishDiscovery(run);
+
+    if (refreshed) {
+      await this.persistSnapshot();
+      await this.accessHistory.record(users, (record) =>
+        this.isIncompleteKey(run, `${record.serverIdentifier}:${record.accountLabel}`)
+      );
+      this.noteInventory(
+        'users',
+        users.map((user) => `${user.serverIdentifier}:${user.accountLabel}:${user.id ?? user.username ?? user.title}`),
+        (key) => this.isIncompleteKey(run, key)
+      );
+    }
+
+    return { servers, users, isIncomplete: (key) => this.isIncompleteKey(run, key) };
+  }
+
+  /**
+   * Lists the members of each account's Plex Home (or one account's), including managed
+   * profiles that never appear on a server's share list.
+   */
+  async getHomeUsers(options: HomeUsersOptions = {}): Promise<HomeUsersResult> {
+    if (options.accountLabel) {
+      this.findTokenForAccount(options.accountLabel);
+    }
+    const labels = options.accountLabel ? [options.accountLabel] : this.accounts.map((account) => account.label);
+    const result: HomeUsersResult = { homes: [], errors: [] };
+    const deadline = new Deadline(this.discoveryTimeoutMs);
+    const limit = createLimiter(this.concurrency, deadline);
+    const homeLogger = this.logger.child('home');
+
+    await Promise.all(
+      labels.map(async (label) => {
+        const cacheKey = `home:${label}`;
+        const cached = this.homeCache.get(cacheKey);
+        if (cached && !options.refresh) {
+          result.homes.push({ accountLabel: label, members: cached });
+          return;
+        }
+
+        const errors: PlexDiagnostic[] = [];
+        const fetched = await deadline.race(
+          limit(() =>
+            fetchHomeUsers(
+              this.client,
+              label,
+              this.findTokenForAccount(label),
+              homeLogger,
+              this.findClientIdentifier(label),
+              (diagnostic) => errors.push(diagnostic)
+            )
+          )
+        );
+        if (fetched === DEADLINE_EXCEEDED) {
+          result.errors.push({
+            accountLabel: label,
+            server: null,
+            endpoint: '/api/home/users',
+            status: null,
+            message: 'Home user lookup did not finish before the discovery deadline',
+          });
+          return;
+        }
+        result.errors.push(...errors);
+        if (fetched === null) {
+          return;
+        }
+        this.homeCache.set(cacheKey, fetched);
+        result.homes.push({ accountLabel: label, members: fetched });
+      })
+    );
+
+    result.homes.sort((a, b) => a.accountLabel.localeCompare(b.accountLabel));
+    return result;
+  }
+
+  /**
+   * Mints a token acting as another member of an account's Plex Home and registers it as an
+   * account, so other tools can show what that member sees. The token itself is never
+   * returned. Without a label the account is named `<account>-home-<member id>`.
+   */
+  async switchToHomeUser(options: SwitchHomeUserOptions): Promise<SwitchHomeUserResult> {
+    const token = this.findTokenForAccount(options.accountLabel);
+    const clientIdentifier = this.findClientIdentifier(options.accountLabel);
+    if (options.label) {
+      this.assertLabelAvailable(options.label);
+    }
+
+    const home = await this.getHomeUsers({ accountLabel: options.accountLabel });
+    const [failure] = home.errors;
+    if (failure) {
+      throw new Error(`Unable to list home users for account ${options.accountLabel}: ${failure.message}`);
+    }
+    const needle = options.user.trim().toLowerCase();
+    const candidates = (home.homes[0]?.members ?? []).filter(
+      (member) =>
+        String(member.id) === needle ||
+        member.uuid?.toLowerCase() === needle ||
+        member.username?.toLowerCase() === needle ||
+        member.title?.toLowerCase() === needle ||
+        (member.email !== null && normalizeEmail(member.email) === normalizeEmail(needle))
+    );
+    const [member] = candidates;
+    if (!member || member.id === null) {
+      throw new Error(`No member of the Plex Home for account ${options.accountLabel} matches "${options.user}"`);
+    }
+    if (candidates.length > 1) {
+      throw new Error(`"${options.user}" matches ${candidates.length} home members; use their id or uuid instead`);
+    }
+
+    const label = options.label ?? `${options.accountLabel}-home-${member.id}`;
+    if (!options.label) {
+      this.assertLabelAvailable(label);
+    }
+
+    const switched = await switchHomeUser(this.client, token, member.id, options.pin, this.logger.child('home'), clientIdentifier);
+    this.logger.info('Switched home user', { account: options.accountLabel, user_id: member.id, label });
+    const registered = await this.registerAccount({ label, token: switched, clientIdentifier });
+    return { accountLabel: options.accountLabel, member, registered };
+  }
+
+  /**
+   * Rows searched by lookups: every server row plus home members with no server row under
+   * the same identity. `homeRows` holds the home rows of people who also have server rows;
+   * they are not searched but are grouped in so profiles show the Home membership. Home
+   * lookup failures are added to the latest discovery report.
+   */
+  private async getLookupRows(refresh = false): Promise<{ users: PlexUserAccess[]; homeRows: PlexUserAccess[] }> {
+    const users = await this.getUsersAcrossServers(refresh);
+    const report = this.lastDiscovery;
+    const homes = await this.getHomeUsers({ refresh });
+    if (report && homes.errors.length > 0) {
+      report.errors.push(...homes.errors);
+      report.complete = false;
     }
 
-    return users;
+    const known = new Set(users.flatMap((user) => linkKeys(user)));
+    const members = homes.homes.flatMap((home) => home.members);
+    const isKnown = (member: PlexUserAccess) => linkKeys(member).some((key) => known.has(key));
+    return {
+      users: [...users, ...members.filter((member) => !isKnown(member))],
+      homeRows: members.filter(isKnown),
+    };
   }
 
+  private async getLookupUsers(refresh = false): Promise<PlexUserAccess[]> {
+    return (await this.getLookupRows(refresh)).users;
+  }
+
+  /**
+   * Searches user rows with the query language from userQuery.ts. Structured filters from
+   * options and from the query are both applied before scoring; a query with only filters
+   * lists every matching row.
+   */
   async searchUsers(query: string, options: SearchOptions = {}): Promise<SearchResult> {
-    const trimmed = query.trim();
-    if (!trimmed) {
+    const parsed = parseUserQuery(query.trim());
+    if (parsed.clauses.length === 0 && !hasQueryFilters(options) && !hasQueryFilters(parsed.filters)) {
       return { matches: [], totalMatched: 0, totalSearched: 0 };
     }
 
-    const users = await this.getUsersAcrossServers(Boolean(options.refresh));
+    const { matches, searched } = this.matchRows(await this.getLookupUsers(Boolean(options.refresh)), parsed, options);
+    return {
+      matches: matches.slice(0, options.maxResults ?? 25),
+      totalMatched: matches.length,
+      totalSearched: searched,
+    };
+  }
+
+  private matchRows(
+    allUsers: PlexUserAccess[],
+    parsed: ParsedQuery,
+    options: SearchOptions
+  ): { matches: QueryMatch[]; searched: number } {
+    const filtered = hasQueryFilters(options) || hasQueryFilters(parsed.filters);
+    const users = filtered
+      ? allUsers.filter((user) => this.matchesFilters(user, options) && this.matchesFilters(user, parsed.filters))
+      : allUsers;
     if (users.length === 0) {
-      return { matches: [], totalMatched: 0, totalSearched: 0 };
+      return { matches: [], searched: 0 };
+    }
+    return { matches: matchUsers(parsed.clauses, options.mode ?? 'fuzzy', users), searched: users.length };
+  }
+
+  /**
+   * Resolves many identifiers against one user snapshot. Inputs are literal values, not
+   * queries: an input with an @ is matched as an email, anything else exactly against
+   * email, username and title. An email that only matches in normalized form is reported as
+   * `normalized` with lower confidence. With fuzzyFallback, unmatched inputs get fuzzy
+   * suggestions but stay not_found. Plex Home members are searched too, so a member without
+   * any server access is found with only their Home listed.
+   */
+  async bulkLookup(identifiers: string[], options: BulkLookupOptions = {}): Promise<BulkLookupResult> {
+    const { users, homeRows } = await this.getLookupRows(Boolean(options.refresh));
+    const groups = groupUserRows([...users, ...homeRows]);
+    const groupOf = new Map<PlexUserAccess, PlexUserAccess[]>();
+    for (const rows of groups) {
+      for (const row of rows) {
+        groupOf.set(row, rows);
+      }
+    }
+
+    const entries = identifiers.map((input): BulkLookupEntry => {
+      const value = input.trim();
+      if (!value) {
+        return { input, status: 'invalid', confidence: 0, profile: null, candidates: 0, suggestions: [] };
+      }
+      const clause: QueryClause = { raw: value, field: value.includes('@') ? 'email' : 'any', value, pattern: null };
+
+      // Literal hits win; inputs that only match a normalized email are reported as such.
+      const hits = matchUsers([clause], 'exact', users);
+      const literal = hits.filter((match) => match.matchDetails.every((detail) => detail.mode !== 'normalized'));
+      const matches = literal.length > 0 ? literal : hits;
+      const best = matches[0];
+      if (!best) {
+        const suggestions: BulkLookupSuggestion[] = [];
+        if (options.fuzzyFallback) {
+          const seen = new Set<PlexUserAccess[] | undefined>();
+          for (const match of matchUsers([clause], 'fuzzy', users)) {
+            const group = groupOf.get(match.user);
+            if (seen.has(group) || suggestions.length >= 3) {
+              continue;
+            }
+            seen.add(group);
+            suggestions.push({
+              profile: buildProfile(group ?? [match.user]),
+              confidence: Math.round((1 - match.score) * 100) / 100,
+            });
+          }
+        }
+        return { input, status: 'not_found', confidence: 0, profile: null, candidates: 0, suggestions };
+      }
+      const people = new Set(matches.map((match) => groupOf.get(match.user)));
+      const normalized = literal.length === 0;
+      return {
+        input,
+        status: people.size > 1 ? 'ambiguous' : normalized ? 'normalized' : 'exact',
+        confidence: normalized ? 1 - NORMALIZED_EMAIL_SCORE : 1,
+        profile: buildProfile(groupOf.get(best.user) ?? [best.user]),
+        candidates: people.size,
+        suggestions: [],
+      };
+    });
+
+    return {
+      entries,
+      found: entries.filter((entry) => entry.profile !== null).length,
+      normalized: entries.filter((entry) => entry.status === 'normalized').map((entry) => entry.input),
+      notFound: entries.filter((entry) => entry.status === 'not_found').map((entry) => entry.input),
+      invalid: entries.filter((entry) => entry.status === 'invalid').map((entry) => entry.input),
+      totalUsers: users.length,
+    };
+  }
+
+  /**
+   * Groups every row from one discovery run into people, then returns the people with a
+   * matching row, best match first, so a profile always lists all of its servers.
+   */
+  async getUserProfiles(query: string, options: SearchOptions = {}): Promise<ProfileResult> {
+    const parsed = parseUserQuery(query.trim());
+    if (parsed.clauses.length === 0 && !hasQueryFilters(options) && !hasQueryFilters(parsed.filters)) {
+      return { profiles: [], totalProfiles: 0 };
+    }
+
+    const { users, homeRows } = await this.getLookupRows(Boolean(options.refresh));
+    const groups = groupUserRows([...users, ...homeRows]);
+    const groupOf = new Map<PlexUserAccess, PlexUserAccess[]>();
+    for (const rows of groups) {
+      for (const row of rows) {
+        groupOf.set(row, rows);
+      }
+    }
+
+    const matched = new Set<PlexUserAccess[]>();
+    for (const match of this.matchRows(users, parsed, options).matches) {
+      const group = groupOf.get(match.user);
+      if (group) {
+        matched.add(group);
+      }
+    }
+    const profiles = Array.from(matched).slice(0, options.maxResults ?? 25).map(buildProfile);
+
+    return { profiles, totalProfiles: groups.length };
+  }
+
+  async getLibraryAccess(query: string, options: LibraryAccessOptions = {}): Promise<LibraryAccessResult> {
+    const search = await this.searchUsers(query, options);
+    // Home rows carry no library share, so they are not library access.
+    const rows = search.matches.map((match) => match.user).filter((user) => !isHomeRow(user));
+
+    const entries = rows.map((user) => ({
+      user,
+      serverIdentifier: user.serverIdentifier,
+      serverName: user.serverName,
+      accountLabel: user.accountLabel,
+      libraries: sharedLibraryTitles(user.share),
+      share: user.share,
+    }));
+
+    return { entries, totalMatched: entries.length };
+  }
+
+  /**
+   * Returns every user row across servers, optionally limited to one account or server,
+   * sorted by account, server, and user for stable exports.
+   */
+  async getAccessInventory(options: AccessInventoryOptions = {}): Promise<PlexUserAccess[]> {
+    if (options.accountLabel) {
+      this.findTokenForAccount(options.accountLabel);
+    }
+    const users = await this.getUsersAcrossServers(Boolean(options.refresh));
+    const userName = (user: PlexUserAccess) => (user.email ?? user.username ?? user.title ?? '').toLowerCase();
+    return users
+      .filter((user) => !options.accountLabel || user.accountLabel === options.accountLabel)
+      .filter((user) => !options.server || matchesServer(user, options.server))
+      .sort(
+        (a, b) =>
+          a.accountLabel.localeCompare(b.accountLabel) ||
+          a.serverName.localeCompare(b.serverName) ||
+          userName(a).localeCompare(userName(b))
+      );
+  }
+
+  /**
+   * Builds a matrix with one row per deduplicated identity and one column per server and
+   * account pair. serverCount counts distinct servers, so a server seen through two
+   * accounts counts once. Only the owner can list a server's users, so columns for shared
+   * servers and for failed fetches are unknown rather than empty.
+   */
+  async getAccessMatrix(options: AccessMatrixOptions = {}): Promise<AccessMatrix> {
+    const { servers, users, isIncomplete } = await this.discoverUsers(Boolean(options.refresh));
+    const columns: AccessMatrixColumn[] = servers
+      .map((server) => ({
+        serverIdentifier: server.machineIdentifier,
+        serverName: server.friendlyName,
+        accountLabel: server.accountLabel,
+        usersKnown: server.owned && !isIncomplete(`${server.machineIdentifier}:${server.accountLabel}`),
+      }))
+      .sort((a, b) => a.serverName.localeCompare(b.serverName) || a.accountLabel.localeCompare(b.accountLabel));
+
+    let missingFrom: Set<string> | null = null;
+    if (options.missingFrom) {
+      const needle = options.missingFrom.trim().toLowerCase();
+      const matched = columns.filter(
+        (column) => column.serverIdentifier.toLowerCase() === needle || column.serverName.toLowerCase() === needle
+      );
+      if (matched.length === 0) {
+        throw new Error(`No server found matching ${options.missingFrom}`);
+      }
+      const unknown = matched.find(
+        (column) => !matched.some((other) => other.serverIdentifier === column.serverIdentifier && other.usersKnown)
+      );
+      if (unknown) {
+        throw new Error(
+          `No configured account could list the users on ${unknown.serverName}, so it is not known who is missing from it`
+        );
+      }
+      missingFrom = new Set(matched.map((column) => column.serverIdentifier));
     }
 
-    const fuse = new Fuse(users, {
-      includeScore: true,
-      includeMatches: true,
-      threshold: 0.4,
-      ignoreLocation: true,
-      keys: [
-        { name: 'email', weight: 0.5 },
-        { name: 'username', weight: 0.3 },
-        { name: 'title', weight: 0.2 },
-      ],
+    const profiles = groupUserIdentities(users);
+    const rows = profiles
+      .map((profile) => {
+        const memberships = new Set(profile.servers.map((server) => `${server.serverIdentifier}:${server.accountLabel}`));
+        return {
+          profile,
+          present: columns.map((column) =>
+            memberships.has(`${column.serverIdentifier}:${column.accountLabel}`) ? true : column.usersKnown ? false : null
+          ),
+          serverCount: new Set(profile.servers.map((server) => server.serverIdentifier)).size,
+        };
+      })
+      .filter((row) => !missingFrom || !row.profile.servers.some((server) => missingFrom.has(server.serverIdentifier)))
+      .filter((row) => options.serverCount === undefined || row.serverCount === options.serverCount)
+      .sort((a, b) => profileName(a.profile).localeCompare(profileName(b.profile), undefined, { sensitivity: 'base' }));
+
+    return { columns, rows, totalIdentities: profiles.length };
+  }
+
+  /**
+   * Lists shared users with no playback in the last `days` days, joining each server's
+   * watch history to user rows by account id. History needs the owner's token, so servers
+   * only shared with an account are skipped and reported.
+   */
+  async getInactiveUsers(options: InactiveUsersOptions): Promise<InactiveUsersResult> {
+    const users = await this.getUsersAcrossServers(Boolean(options.refresh));
+    const now = Date.now();
+    const cutoff = now - options.days * 86400000;
+    const result: InactiveUsersResult = {
+      days: options.days,
+      cutoff: new Date(cutoff).toISOString(),
+      entries: [],
+      checkedUsers: 0,
+      unknownUsers: 0,
+      skippedServers: [],
+      errors: [],
+    };
+
+    const candidates: Array<{ user: PlexUserAccess; server: PlexServer }> = [];
+    const skipped = new Set<string>();
+    for (const user of users) {
+      if (!user.share || user.id === null || (options.server && !matchesServer(user, options.server))) {
+        continue;
+      }
+      const key = `${user.serverIdentifier}:${user.accountLabel}`;
+      const server = this.knownServers.get(key);
+      if (server?.owned) {
+        candidates.push({ user, server });
+      } else if (!skipped.has(key)) {
+        skipped.add(key);
+        result.skippedServers.push({
+          name: user.serverName,
+          machineIdentifier: user.serverIdentifier,
+          accountLabel: user.accountLabel,
+        });
+      }
+    }
+
+    const deadline = new Deadline(this.discoveryTimeoutMs);
+    const limit = createLimiter(this.concurrency, deadline);
+    const historyLogger = this.logger.child('history');
+
+    await Promise.all(
+      candidates.map(async ({ user, server }) => {
+        const accountId = user.id as number;
+        const cacheKey = `viewing:${server.machineIdentifier}:${server.accountLabel}:${accountId}`;
+        let viewing = options.refresh ? undefined : this.viewingCache.get(cacheKey);
+        if (viewing === undefined) {
+          const errors: PlexDiagnostic[] = [];
+          const fetched = await deadline.race(
+            limit(() =>
+              fetchLastViewing(
+                this.client,
+                server,
+                this.findTokenForAccount(server.accountLabel),
+                accountId,
+                historyLogger,
+                this.findClientIdentifier(server.accountLabel),
+                (diagnostic) => errors.push(diagnostic)
+              )
+            )
+          );
+          if (fetched === DEADLINE_EXCEEDED || errors.length > 0) {
+            result.errors.push(...errors);
+            result.unknownUsers += 1;
+            return;
+          }
+          viewing = fetched;
+          this.viewingCache.set(cacheKey, viewing);
+        }
+
+        result.checkedUsers += 1;
+        const lastSeen = viewing ? Date.parse(viewing.viewedAt) : null;
+        if (lastSeen !== null && lastSeen >= cutoff) {
+          return;
+        }
+        result.entries.push({
+          user,
+          serverIdentifier: user.serverIdentifier,
+          serverName: user.serverName,
+          accountLabel: user.accountLabel,
+          lastSeenAt: viewing?.viewedAt ?? null,
+          lastTitle: viewing?.title ?? null,
+          daysSinceSeen: lastSeen === null ? null : Math.floor((now - lastSeen) / 86400000),
+        });
+      })
+    );
+
+    result.entries.sort(
+      (a, b) =>
+        a.serverName.localeCompare(b.serverName) ||
+        a.serverIdentifier.localeCompare(b.serverIdentifier) ||
+        a.accountLabel.localeCompare(b.accountLabel) ||
+        (a.lastSeenAt ?? '').localeCompare(b.lastSeenAt ?? '')
+    );
+    return result;
+  }
+
+  /**
+   * Collects the sessions playing right now on every owned server across all accounts.
+   * Sessions are never cached; each one is resolved to a known person through the server's
+   * user rows.
+   */
+  async getNowPlaying(options: NowPlayingOptions = {}): Promise<NowPlayingResult> {
+    // One discovery run, so the report left for the caller covers the users stage too.
+    const discovered = await this.discoverUsers(Boolean(options.refresh));
+    const users = discovered.users;
+    const needle = options.server?.trim().toLowerCase();
+    const servers = discovered.servers.filter(
+      (server) =>
+        !needle || server.machineIdentifier.toLowerCase() === needle || server.friendlyName.toLowerCase() === needle
+    );
+    const result: NowPlayingResult = {
+      sessions: [],
+      totalBandwidthKbps: 0,
+      checkedServers: 0,
+      skippedServers: [],
+      errors: [],
+    };
+
+    const groupOf = new Map<PlexUserAccess, PlexUserAccess[]>();
+    for (const rows of groupUserRows(users)) {
+      for (const row of rows) {
+        groupOf.set(row, rows);
+      }
+    }
+    const resolve = (server: PlexServer, accountId: number | null): PlexUserProfile | null => {
+      const row = users.find(
+        (user) =>
+          accountId !== null &&
+          user.id === accountId &&
+          user.serverIdentifier === server.machineIdentifier &&
+          user.accountLabel === server.accountLabel
+      );
+      return row ? buildProfile(groupOf.get(row) ?? [row]) : null;
+    };
+
+    const deadline = new Deadline(this.discoveryTimeoutMs);
+    const limit = createLimiter(this.concurrency, deadline);
+    const sessionsLogger = this.logger.child('sessions');
+
+    // A server shared with one account is usually owned by another; only report it as
+    // skipped when no configured account owns it.
+    const ownedIds = new Set(servers.filter((server) => server.owned).map((server) => server.machineIdentifier));
+
+    await Promise.all(
+      servers.map(async (server) => {
+        if (!server.owned) {
+          if (ownedIds.has(server.machineIdentifier)) {
+            return;
+          }
+          result.skippedServers.push({
+            name: server.friendlyName,
+            machineIdentifier: server.machineIdentifier,
+            accountLabel: server.accountLabel,
+          });
+          return;
+        }
+
+        const errors: PlexDiagnostic[] = [];
+        const sessions = await deadline.race(
+          limit(() =>
+            fetchServerSessions(
+              this.client,
+              server,
+              this.findTokenForAccount(server.accountLabel),
+              sessionsLogger,
+              this.findClientIdentifier(server.accountLabel),
+              (diagnostic) => errors.push(diagnostic)
+            )
+          )
+        );
+        result.errors.push(...errors);
+        if (sessions === DEADLINE_EXCEEDED) {
+          result.errors.push({
+            accountLabel: server.accountLabel,
+            server: server.friendlyName,
+            endpoint: '/status/sessions',
+            status: null,
+            message: 'Session lookup did not finish before the discovery deadline',
+          });
+          return;
+        }
+        if (sessions === null) {
+          return;
+        }
+
+        result.checkedServers += 1;
+        for (const session of sessions) {
+          result.sessions.push({
+            session,
+            profile: resolve(server, session.accountId),
+            serverIdentifier: server.machineIdentifier,
+            serverName: server.friendlyName,
+            accountLabel: server.accountLabel,
+          });
+          result.totalBandwidthKbps += session.bandwidthKbps ?? 0;
+        }
+      })
+    );
+
+    result.sessions.sort(
+      (a, b) =>
+        a.serverName.localeCompare(b.serverName) ||
+        a.accountLabel.localeCompare(b.accountLabel) ||
+        (b.session.bandwidthKbps ?? 0) - (a.session.bandwidthKbps ?? 0)
+    );
+    result.skippedServers.sort((a, b) => a.name.localeCompare(b.name));
+    return result;
+  }
+
+  async shareServer(options: ShareServerOptions): Promise<ShareServerResult> {
+    const token = this.findTokenForAccount(options.accountLabel);
+    const clientIdentifier = this.findClientIdentifier(options.accountLabel);
+    const writeLogger = this.logger.child('share');
+
+    const available = await getServerLibrarySections(this.client, options.machineIdentifier, token, writeLogger, clientIdentifier);
+    const libraries = resolveLibrarySections(available, options.libraries);
+    const sectionIds = librarySectionIds(libraries);
+
+    const writeRequest = buildShareServerRequest(this.client, options.machineIdentifier, options.email, sectionIds, options.settings);
+    const result: ShareServerResult = {
+      dryRun: !options.confirm,
+      accountLabel: options.accountLabel,
+      machineIdentifier: options.machineIdentifier,
+      email: options.email,
+      libraries,
+      request: previewWriteRequest(writeRequest, clientIdentifier),
+    };
+
+    if (!options.confirm) {
+      return result;
+    }
+
+    this.logger.info('Sharing server with user', {
+      account: options.accountLabel,
+      machineIdentifier: options.machineIdentifier,
+      libraries: libraries.length,
+    });
+    result.response = await executeWriteRequest<unknown>(this.client, writeRequest, token, writeLogger, clientIdentifier);
+    this.userCache.clear(`users:${options.machineIdentifier}:${options.accountLabel}`);
+    return result;
+  }
+
+  async revokeAccess(options: RevokeAccessOptions): Promise<ShareChangeResult> {
+    const rows = await this.findShareRows(options.userId, options.server);
+    const planned = rows.map((row): PlannedShareChange => {
+      const share = row.share as PlexShareDetails;
+      const before = sharedLibraryTitles(share);
+      return {
+        row,
+        request: buildRemoveShareRequest(this.client, row.serverIdentifier, share.sharedServerId as number),
+        change: {
+          action: 'remove',
+          librariesBefore: before,
+          librariesAfter: [],
+          librariesAdded: [],
+          librariesRemoved: before,
+        },
+      };
     });
 
-    const results = fuse.search(trimmed, { limit: options.maxResults ?? 25 });
+    return this.applyShareChanges(options.userId, planned, Boolean(options.confirm));
+  }
+
+  async updateShareLibraries(options: UpdateShareOptions): Promise<ShareChangeResult> {
+    const rows = await this.findShareRows(options.userId, options.server);
+    const planned: PlannedShareChange[] = [];
+    for (const row of rows) {
+      const share = row.share as PlexShareDetails;
+      const available = await getServerLibrarySections(
+        this.client,
+        row.serverIdentifier,
+        this.findTokenForAccount(row.accountLabel),
+        this.logger.child('share'),
+        this.findClientIdentifier(row.accountLabel)
+      );
+      const libraries = resolveLibrarySections(available, options.libraries);
+      const sectionIds = librarySectionIds(libraries);
+      const before = sharedLibraryTitles(share);
+      const after = libraries.map((section) => section.title);
+      planned.push({
+        row,
+        request: buildUpdateShareRequest(this.client, row.serverIdentifier, share.sharedServerId as number, sectionIds),
+        change: {
+          action: 'update',
+          librariesBefore: before,
+          librariesAfter: after,
+          librariesAdded: after.filter((title) => !before.includes(title)),
+          librariesRemoved: before.filter((title) => !after.includes(title)),
+        },
+      });
+    }
+
+    return this.applyShareChanges(options.userId, planned, Boolean(options.confirm));
+  }
+
+  async diffAccess(options: AccessDiffOptions = {}): Promise<AccessDiffResult> {
+    let from: AccessSnapshot | undefined;
+    if (options.from) {
+      from = this.accessHistory.find(options.from);
+    } else if (typeof options.sinceDays === 'number') {
+      from = this.accessHistory.findAtOrBefore(Date.now() - options.sinceDays * 24 * 60 * 60 * 1000);
+    } else {
+      from = this.accessHistory.oldest();
+    }
+
+    if (!from) {
+      const available = this.accessHistory.list();
+      throw new Error(
+        available.length === 0
+          ? 'No access snapshots have been recorded yet. Run a lookup or status call with refresh to record one.'
+          : `No access snapshot matches the requested starting point. Oldest snapshot: ${available[0]?.recordedAt}`
+      );
+    }
+
+    let fromRecords = from.users;
+    let toRecords: AccessRecord[];
+    let toSummary: AccessDiffResult['to'];
+    const errors: PlexDiagnostic[] = [];
+    if (options.to) {
+      const to = this.accessHistory.find(options.to);
+      if (!to) {
+        throw new Error(`No access snapshot matches ${options.to}`);
+      }
+      toRecords = to.users;
+      toSummary = { id: to.id, recordedAt: to.recordedAt, userCount: to.users.length };
+    } else {
+      // Servers whose user list failed in this run are left out on both sides; otherwise an
+      // outage would read as everyone on them losing access.
+      const { users, isIncomplete } = await this.discoverUsers(Boolean(options.refresh));
+      const recordKey = (record: AccessRecord) => `${record.serverIdentifier}:${record.accountLabel}`;
+      const skipped = new Map<string, AccessRecord>();
+      for (const record of [...fromRecords, ...users]) {
+        if (isIncomplete(recordKey(record)) && !skipped.has(recordKey(record))) {
+          skipped.set(recordKey(record), record);
+        }
+      }
+      for (const record of skipped.values()) {
+        errors.push({
+          accountLabel: record.accountLabel,
+          server: record.serverName,
+          endpoint: 'diff',
+          status: null,
+          message: 'User list was incomplete, so this server was left out of the diff',
+        });
+      }
+      fromRecords = fromRecords.filter((record) => !skipped.has(recordKey(record)));
+      toRecords = users.map(toAccessRecord).filter((record) => !skipped.has(recordKey(record)));
+      toSummary = { id: 'live', recordedAt: new Date().toISOString(), userCount: toRecords.length };
+    }
 
     return {
-      matches: results.map((res) => ({
-        score: res.score ?? 1,
-        user: res.item,
-        matchDetails: (res.matches ?? []).map((match) => ({
-          key: match.key,
-          value: match.value,
-          indices: match.indices,
-        })),
-      })),
-      totalMatched: results.length,
-      totalSearched: users.length,
+      ...diffAccess(fromRecords, toRecords),
+      from: { id: from.id, recordedAt: from.recordedAt, userCount: from.users.length },
+      to: toSummary,
+      snapshots: this.accessHistory.list(),
+      errors,
     };
   }
 
-  async generateAuthPin(clientIdentifier?: string): Promise<AuthPinResult> {
-    const pin = await createAuthPin(clientIdentifier, this.logger.child('auth'));
+  async generateAuthPin(clientIdentifier?: string, accountLabel?: string): Promise<AuthPinResult> {
+    if (accountLabel) {
+      this.assertLabelAvailable(accountLabel);
+    }
+    const pin = await createAuthPin(this.client, clientIdentifier, this.logger.child('auth'));
+    if (accountLabel) {
+      this.pendingPinLabels.set(pin.id, accountLabel);
+    }
     return {
       pin,
       authorizationUrl: buildAuthUrl(pin),
+      accountLabel: accountLabel ?? null,
     };
   }
 
-  async checkAuthPinStatus(id: number, clientIdentifier: string): Promise<PlexPinStatus> {
-    return checkAuthPin(id, clientIdentifier, this.logger.child('auth'));
+  /**
+   * Polls a PIN and, once it carries a token and a label is known (passed here or when the
+   * PIN was generated), validates the token and registers it as an account. With a token
+   * store configured the account is persisted there.
+   */
+  async checkAuthPinStatus(id: number, clientIdentifier: string, accountLabel?: string): Promise<AuthPinCheckResult> {
+    const status = await checkAuthPin(this.client, id, clientIdentifier, this.logger.child('auth'));
+    const label = accountLabel ?? this.pendingPinLabels.get(id) ?? null;
+    const result: AuthPinCheckResult = { status, accountLabel: label, registered: null, registrationError: null };
+    if (!status.authToken || !label) {
+      return result;
+    }
+
+    try {
+      result.registered = await this.registerAccount({ label, token: status.authToken, clientIdentifier });
+      this.pendingPinLabels.delete(id);
+    } catch (error) {
+      result.registrationError = error instanceof Error ? error.message : String(error);
+    }
+    return result;
   }
 
   clearCaches(): void {
     this.serverCache.clear();
     this.userCache.clear();
+    this.viewingCache.clear();
+    this.homeCache.clear();
+    this.fetchedAt.clear();
+    this.cacheIssues.clear();
+  }
+
+  getSnapshotStatus(): SnapshotStatus | null {
+    if (!this.snapshotStore) {
+      return null;
+    }
+    const timestamps = [...this.serverCache.entries(), ...this.userCache.entries()]
+      .map(([key]) => this.fetchedAt.get(key))
+      .filter((timestamp): timestamp is number => typeof timestamp === 'number');
+    const oldest = timestamps.length > 0 ? Math.min(...timestamps) : null;
+    return {
+      path: this.snapshotStore.getPath(),
+      loadedSnapshotSavedAt: toIsoString(this.loadedSnapshotSavedAt),
+      lastSavedAt: toIsoString(this.lastSnapshotSavedAt),
+      oldestEntryAt: toIsoString(oldest),
+      ageSeconds: oldest === null ? null : Math.round((Date.now() - oldest) / 1000),
+    };
+  }
+
+  private startDiscovery(): DiscoveryRun {
+    const deadline = new Deadline(this.discoveryTimeoutMs);
+    return {
+      deadline,
+      limit: createLimiter(this.concurrency, deadline),
+      startedAt: Date.now(),
+      report: {
+        complete: true,
+        startedAt: new Date().toISOString(),
+        durationMs: 0,
+        timeoutMs: this.discoveryTimeoutMs,
+        concurrency: this.concurrency,
+        pendingAccounts: [],
+        pendingServers: [],
+        errors: [],
+      },
+      incompleteServers: new Set(),
+      incompleteAccounts: new Set(),
+    };
+  }
+
+  private finishDiscovery(run: DiscoveryRun): void {
+    run.report.durationMs = Date.now() - run.startedAt;
+    run.report.complete =
+      run.report.pendingAccounts.length === 0 &&
+      run.report.pendingServers.length === 0 &&
+      run.report.errors.length === 0;
+    if (!run.report.complete) {
+      this.logger.warn('Discovery finished with incomplete results', {
+        pending_accounts: run.report.pendingAccounts,
+        pending_servers: run.report.pendingServers.length,
+        errors: run.report.errors.length,
+      });
+    }
+    this.lastDiscovery = run.report;
+  }
+
+  private async discoverServers(refresh: boolean, run: DiscoveryRun): Promise<PlexServer[]> {
+    let refreshed = false;
+
+    const perAccount = await Promise.all(
+      this.accounts.map(async (account) => {
+        const cacheKey = `servers:${account.label}`;
+        const cached = this.serverCache.get(cacheKey);
+        if (cached && !refresh) {
+          this.replayCacheIssues(cacheKey, run);
+          return cached;
+        }
+
+        this.logger.info('Loading servers for account', { label: account.label });
+        const errors: PlexDiagnostic[] = [];
+        const reportError = (diagnostic: PlexDiagnostic) => {
+          errors.push({ ...diagnostic, accountLabel: account.label });
+        };
+        const resources = await run.deadline.race(
+          run.limit(() =>
+            getResources(this.client, account.token, this.logger.child('resources'), account.clientIdentifier, reportError)
+          )
+        );
+        if (resources === DEADLINE_EXCEEDED) {
+          run.report.pendingAccounts.push(account.label);
+          run.incompleteAccounts.add(account.label);
+          return cached ?? [];
+        }
+        if (errors.length > 0) {
+          run.report.errors.push(...errors);
+          run.incompleteAccounts.add(account.label);
+          return cached ?? [];
+        }
+
+        const connectLogger = this.logger.child('connect');
+        const outcomes = await Promise.all(
+          resources.map((resource) =>
+            run.deadline.race(
+              run.limit(() =>
+                connectToServer(
+                  this.client,
+                  resource,
+                  account.token,
+                  account.label,
+                  connectLogger,
+                  account.clientIdentifier,
+                  this.connectionPolicy,
+                  reportError
+                )
+              )
+            )
+          )
+        );
+
+        const connected: PlexServer[] = [];
+        const unreachable: string[] = [];
+        let complete = true;
+        outcomes.forEach((outcome, index) => {
+          const resource = resources[index];
+          const serverKey = `${resource?.machineIdentifier ?? 'unknown'}:${account.label}`;
+          if (outcome === DEADLINE_EXCEEDED) {
+            complete = false;
+            run.report.pendingServers.push({
+              name: resource?.name ?? 'unknown',
+              machineIdentifier: resource?.machineIdentifier ?? 'unknown',
+              accountLabel: account.label,
+              stage: 'connect',
+            });
+            run.incompleteServers.add(serverKey);
+          } else if (outcome) {
+            connected.push(outcome);
+          } else {
+            unreachable.push(serverKey);
+            run.incompleteServers.add(serverKey);
+          }
+        });
+
+        // Unreachable servers are cached with their diagnostics; only a run cut short by the
+        // deadline is retried on the next call.
+        run.report.errors.push(...errors);
+        if (complete) {
+          this.cacheResult(this.serverCache, cacheKey, connected, { errors, incompleteServers: unreachable });
+          refreshed = true;
+        }
+        return connected;
+      })
+    );
+
+    const aggregated: PlexServer[] = [];
+    const seen = new Set<string>();
+    for (const server of perAccount.flat()) {
+      const key = `${server.machineIdentifier}:${server.accountLabel}`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        aggregated.push(server);
+        this.knownServers.set(key, server);
+      }
+    }
+
+    if (refreshed) {
+      await this.persistSnapshot();
+      this.noteInventory('servers', Array.from(seen), (key) => this.isIncompleteKey(run, key));
+    }
+
+    return aggregated;
+  }
+
+  private matchesFilters(user: PlexUserAccess, filters: QueryFilters): boolean {
+    if (filters.server && !matchesServer(user, filters.server)) {
+      return false;
+    }
+    if (filters.accountLabel && user.accountLabel !== filters.accountLabel) {
+      return false;
+    }
+    for (const field of ['restricted', 'home', 'guest', 'canInvite'] as const) {
+      const wanted = filters[field];
+      if (wanted !== undefined && Boolean(user[field]) !== wanted) {
+        return false;
+      }
+    }
+    if (filters.owned !== undefined) {
+      const owned = this.knownServers.get(`${user.serverIdentifier}:${user.accountLabel}`)?.owned;
+      if (owned !== filters.owned) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Notifies listeners when the set of servers or users changes. Keys belonging to servers
+   * or accounts that failed this run keep their previous state, so an outage on one server
+   * neither fires a notification nor hides real changes elsewhere.
+   */
+  private noteInventory(kind: 'servers' | 'users', keys: string[], isIncomplete: (key: string) => boolean): void {
+    const previous = this.inventoryKeys.get(kind);
+    const next = new Set(previous ? keys.filter((key) => !isIncomplete(key)) : keys);
+    for (const key of previous ?? []) {
+      if (isIncomplete(key)) {
+        next.add(key);
+      }
+    }
+    this.inventoryKeys.set(kind, next);
+    if (previous && (previous.size !== next.size || [...next].some((key) => !previous.has(key)))) {
+      this.logger.info('Inventory changed', { kind });
+      this.notifyInventoryChanged();
+    }
+  }
+
+  /**
+   * Checks a key that starts with `machineIdentifier:accountLabel` against the servers and
+   * accounts that failed during the run.
+   */
+  private isIncompleteKey(run: DiscoveryRun, key: string): boolean {
+    const [machineIdentifier = '', accountLabel = ''] = key.split(':');
+    return run.incompleteAccounts.has(accountLabel) || run.incompleteServers.has(`${machineIdentifier}:${accountLabel}`);
+  }
+
+  private cacheResult<T>(cache: TTLCache<string, T>, key: string, value: T, issues: CacheIssues): void {
+    cache.set(key, value);
+    this.fetchedAt.set(key, Date.now());
+    if (issues.errors.length > 0 || issues.incompleteServers.length > 0) {
+      this.cacheIssues.set(key, issues);
+    } else {
+      this.cacheIssues.delete(key);
+    }
+  }
+
+  private replayCacheIssues(key: string, run: DiscoveryRun): void {
+    const issues = this.cacheIssues.get(key);
+    if (issues) {
+      run.report.errors.push(...issues.errors);
+      for (const serverKey of issues.incompleteServers) {
+        run.incompleteServers.add(serverKey);
+      }
+    }
+  }
+
+  private notifyInventoryChanged(): void {
+    for (const listener of this.inventoryListeners) {
+      try {
+        listener();
+      } catch (error) {
+        this.logger.warn('Inventory listener failed', {
+          error_message: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  private loadSnapshot(): void {
+    const snapshot = this.snapshotStore?.load();
+    if (!snapshot) {
+      return;
+    }
+
+    const labels = new Set(this.accounts.map((account) => account.label));
+    // Entries keep the TTL left since they were fetched; expired ones are not restored.
+    const fresh = (entry: SnapshotEntry<unknown>) => Date.now() <= entry.fetchedAt + this.cacheTtlMs;
+    let servers = 0;
+    let users = 0;
+    for (const entry of snapshot.servers) {
+      if (fresh(entry) && labels.has(entry.key.slice('servers:'.length))) {
+        this.serverCache.set(entry.key, entry.value, entry.fetchedAt);
+        this.fetchedAt.set(entry.key, entry.fetchedAt);
+        this.restoreCacheIssues(entry);
+        servers += entry.value.length;
+      }
+    }
+    for (const entry of snapshot.users) {
+      if (fresh(entry) && entry.value.every((user) => labels.has(user.accountLabel))) {
+        this.userCache.set(entry.key, entry.value, entry.fetchedAt);
+        this.fetchedAt.set(entry.key, entry.fetchedAt);
+        this.restoreCacheIssues(entry);
+        users += entry.value.length;
+      }
+    }
+
+    this.loadedSnapshotSavedAt = snapshot.savedAt;
+    this.logger.info('Loaded snapshot from disk', {
+      path: this.snapshotStore?.getPath(),
+      saved_at: new Date(snapshot.savedAt).toISOString(),
+      servers,
+      users,
+    });
+  }
+
+  private restoreCacheIssues(entry: SnapshotEntry<unknown>): void {
+    if (entry.errors?.length || entry.incompleteServers?.length) {
+      this.cacheIssues.set(entry.key, { errors: entry.errors ?? [], incompleteServers: entry.incompleteServers ?? [] });
+    }
+  }
+
+  private async persistSnapshot(): Promise<void> {
+    if (!this.snapshotStore) {
+      return;
+    }
+    const entriesFor = <T>(cache: TTLCache<string, T>) =>
+      cache.entries().map(([key, value]) => ({
+        key,
+        fetchedAt: this.fetchedAt.get(key) ?? Date.now(),
+        value,
+        ...this.cacheIssues.get(key),
+      }));
+
+    try {
+      const snapshot = await this.snapshotStore.save({
+        servers: entriesFor(this.serverCache),
+        users: entriesFor(this.userCache),
+      });
+      this.lastSnapshotSavedAt = snapshot.savedAt;
+    } catch (error) {
+      this.logger.warn('Failed to write snapshot', {
+        path: this.snapshotStore.getPath(),
+        error_message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private async findShareRows(userId: number, server?: string): Promise<PlexUserAccess[]> {
+    const users = await this.getUsersAcrossServers();
+    const rows = users.filter(
+      (user) =>
+        user.id === userId &&
+        user.share?.sharedServerId !== null &&
+        user.share?.sharedServerId !== undefined &&
+        (!server || matchesServer(user, server))
+    );
+    if (rows.length === 0) {
+      const scope = server ? ` on server ${server}` : '';
+      throw new Error(`No share entry found for user id ${userId}${scope}`);
+    }
+    return rows;
+  }
+
+  private async applyShareChanges(
+    userId: number,
+    planned: PlannedShareChange[],
+    confirm: boolean
+  ): Promise<ShareChangeResult> {
+    const first = planned[0]?.row;
+    const result: ShareChangeResult = {
+      dryRun: !confirm,
+      userId,
+      user: {
+        username: first?.username ?? null,
+        email: first?.email ?? null,
+        title: first?.title ?? null,
+      },
+      changes: [],
+      failed: 0,
+    };
+
+    // Each server is independent, so a failed write is recorded and the remaining changes
+    // are still attempted; the caller always learns which writes went through.
+    for (const { row, request, change } of planned) {
+      const clientIdentifier = this.findClientIdentifier(row.accountLabel);
+      let error: string | null = null;
+      if (confirm) {
+        this.logger.info('Applying share change', {
+          action: change.action,
+          server: row.serverName,
+          account: row.accountLabel,
+        });
+        try {
+          await executeWriteRequest<unknown>(
+            this.client,
+            request,
+            this.findTokenForAccount(row.accountLabel),
+            this.logger.child('share'),
+            clientIdentifier
+          );
+        } catch (failure) {
+          error = failure instanceof Error ? failure.message : String(failure);
+          result.failed += 1;
+        }
+        this.userCache.clear(`users:${row.serverIdentifier}:${row.accountLabel}`);
+      }
+      result.changes.push({
+        ...change,
+        serverIdentifier: row.serverIdentifier,
+        serverName: row.serverName,
+        accountLabel: row.accountLabel,
+        sharedServerId: row.share?.sharedServerId as number,
+        request: previewWriteRequest(request, clientIdentifier),
+        applied: confirm && error === null,
+        error,
+      });
+    }
+
+    return result;
+  }
+
+  private async runHealthCheck(): Promise<TokenHealth[]> {
+    const deadline = new Deadline(this.discoveryTimeoutMs);
+    const limit = createLimiter(this.concurrency, deadline);
+    const validateLogger = this.logger.child('validate');
+    let validated = false;
+
+    const results = await Promise.all(
+      this.accounts.map(async (account) => {
+        let diagnostic: PlexDiagnostic | null = null;
+        const info = await deadline.race(
+          limit(() =>
+            validateToken(this.client, account.token, validateLogger, account.clientIdentifier, (reported) => {
+              diagnostic = { ...reported, accountLabel: account.label };
+            })
+          )
+        );
+
+        let outcome: TokenCheckOutcome;
+        if (info === DEADLINE_EXCEEDED) {
+          outcome = { kind: 'timeout' };
+        } else if (info) {
+          outcome = { kind: 'valid', info };
+          account.lastValidatedAt = Date.now();
+          account.username = info.username ?? null;
+          account.email = info.email ?? null;
+          validated = true;
+        } else {
+          outcome = { kind: 'failed', diagnostic };
+        }
+        // The account may have been relabeled or removed while the check was in flight.
+        return this.accounts.includes(account) ? this.tokenHealth.record(account.label, outcome) : null;
+      })
+    );
+
+    if (validated) {
+      await this.persistStoredAccounts();
+    }
+    return results.filter((result): result is TokenHealth => result !== null);
+  }
+
+  private loadStoredAccounts(): void {
+    if (!this.tokenStore) {
+      return;
+    }
+    for (const stored of this.tokenStore.load()) {
+      if (this.accounts.some((account) => account.label === stored.label)) {
+        this.logger.warn('Skipping stored account whose label is already configured', { label: stored.label });
+        continue;
+      }
+      this.accounts.push({ ...stored, source: 'store' });
+      this.tokenHealth.seed(stored.label, stored.lastValidatedAt, stored.username, stored.email);
+    }
+  }
+
+  private async persistStoredAccounts(): Promise<void> {
+    if (!this.tokenStore) {
+      return;
+    }
+    const stored: StoredAccount[] = this.accounts
+      .filter((account) => account.source === 'store')
+      .map((account) => ({
+        label: account.label,
+        token: account.token,
+        clientIdentifier: account.clientIdentifier,
+        addedAt: account.addedAt ?? Date.now(),
+        lastValidatedAt: account.lastValidatedAt,
+        username: account.username,
+        email: account.email,
+      }));
+    try {
+      await this.tokenStore.save(stored);
+    } catch (error) {
+      this.logger.warn('Failed to write token store', {
+        path: this.tokenStore.getPath(),
+        error_message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private assertLabelAvailable(label: string): void {
+    if (this.accounts.some((account) => account.label === label)) {
+      throw new Error(`An account labeled ${label} already exists`);
+    }
+  }
+
+  private findRuntimeAccount(label: string): ManagedAccount {
+    const account = this.accounts.find((acct) => acct.label === label);
+    if (!account) {
+      throw new Error(`No account found for label ${label}`);
+    }
+    if (account.source === 'config') {
+      throw new Error(`Account ${label} comes from the server config and cannot be changed at runtime`);
+    }
+    return account;
   }
 
   private findTokenForAccount(label: string): string {
@@ -0,0 +1,75 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CircuitBreakerRegistry, CircuitOpenError, computeBackoffMs, parseRetryAfterMs } from './resilience.js';
+
+const POLICY = { failureThreshold: 2, cooldownMs: 1000 };
+
+test('opens after the failure threshold and reports the last failure', (t) => {
+  t.mock.timers.enable({ apis: ['Date'], now: 0 });
+  const breakers = new CircuitBreakerRegistry(POLICY);
+
+  breakers.recordFailure('plex.tv', 503, 'HTTP 503');
+  breakers.acquire('plex.tv');
+  breakers.recordFailure('plex.tv', 503, 'HTTP 503 again');
+
+  assert.throws(
+    () => breakers.acquire('plex.tv'),
+    (error: unknown) =>
+      error instanceof CircuitOpenError &&
+      error.host === 'plex.tv' &&
+      error.retryAt === 1000 &&
+      error.lastStatus === 503 &&
+      error.lastError === 'HTTP 503 again'
+  );
+  assert.equal(breakers.status()[0]?.state, 'open');
+  breakers.acquire('other.host');
+});
+
+test('lets one trial through after the cooldown and closes on success', (t) => {
+  t.mock.timers.enable({ apis: ['Date'], now: 0 });
+  const breakers = new CircuitBreakerRegistry(POLICY);
+  breakers.recordFailure('plex.tv', null, 'ECONNRESET');
+  breakers.recordFailure('plex.tv', null, 'ECONNRESET');
+
+  t.mock.timers.tick(1000);
+  assert.equal(breakers.status()[0]?.state, 'half-open');
+  breakers.acquire('plex.tv');
+  assert.throws(() => breakers.acquire('plex.tv'), CircuitOpenError);
+
+  breakers.recordSuccess('plex.tv');
+  breakers.acquire('plex.tv');
+  assert.deepEqual(breakers.status(), []);
+});
+
+test('re-opens when the half-open trial fails', (t) => {
+  t.mock.timers.enable({ apis: ['Date'], now: 0 });
+  const breakers = new CircuitBreakerRegistry({ failureThreshold: 5, cooldownMs: 1000 });
+  for (let i = 0; i < 5; i += 1) {
+    breakers.recordFailure('plex.tv', 500, 'HTTP 500');
+  }
+
+  t.mock.timers.tick(1000);
+  breakers.acquire('plex.tv');
+  breakers.recordFailure('plex.tv', 500, 'HTTP 500');
+
+  assert.throws(() => breakers.acquire('plex.tv'), /Circuit open for plex\.tv until 1970-01-01T00:00:02\.000Z/);
+});
+
+test('caps jittered backoff', (t) => {
+  t.mock.method(Math, 'random', () => 1);
+  const policy = { maxRetries: 5, baseDelayMs: 100, maxDelayMs: 1000 };
+
+  assert.equal(computeBackoffMs(0, policy), 100);
+  assert.equal(computeBackoffMs(2, policy), 400);
+  assert.equal(computeBackoffMs(8, policy), 1000);
+});
+
+test('parses Retry-After seconds and dates', () => {
+  const now = Date.parse('2026-01-01T00:00:00Z');
+
+  assert.equal(parseRetryAfterMs('3', now), 3000);
+  assert.equal(parseRetryAfterMs('Thu, 01 Jan 2026 00:00:10 GMT', now), 10000);
+  assert.equal(parseRetryAfterMs('Wed, 31 Dec 2025 00:00:00 GMT', now), 0);
+  assert.equal(parseRetryAfterMs('soon', now), null);
+  assert.equal(parseRetryAfterMs(undefined, now), null);
+});
@@ -0,0 +1,157 @@
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface CircuitBreakerPolicy {
+  failureThreshold: number;
+  cooldownMs: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerStatus {
+  host: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: string | null;
+  retryAt: string | null;
+  lastError: string | null;
+}
+
+export interface RequestStats {
+  requests: number;
+  retries: number;
+  failures: number;
+  rateLimited: number;
+  shortCircuited: number;
+  breakers: CircuitBreakerStatus[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+};
+
+export const DEFAULT_CIRCUIT_BREAKER_POLICY: CircuitBreakerPolicy = {
+  failureThreshold: 3,
+  cooldownMs: 60000,
+};
+
+/**
+ * Carries the failure that opened the circuit, so callers can still report the original
+ * status instead of only the short-circuit.
+ */
+export class CircuitOpenError extends Error {
+  constructor(
+    readonly host: string,
+    readonly retryAt: number,
+    readonly lastStatus: number | null,
+    readonly lastError: string | null
+  ) {
+    super(
+      `Circuit open for ${host} until ${new Date(retryAt).toISOString()}${lastError ? ` (last error: ${lastError})` : ''}`
+    );
+    this.name = 'CircuitOpenError';
+  }
+}
+
+export function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Full-jitter exponential backoff: a random delay between 0 and base * 2^attempt, capped.
+ */
+export function computeBackoffMs(attempt: number, policy: RetryPolicy): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Parses a Retry-After header given either as delta-seconds or an HTTP date.
+ */
+export function parseRetryAfterMs(value: string | undefined, now = Date.now()): number | null {
+  if (!value) {
+    return null;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+interface BreakerEntry {
+  consecutiveFailures: number;
+  openedAt: number | null;
+  trialInFlight: boolean;
+  lastStatus: number | null;
+  lastError: string | null;
+}
+
+export class CircuitBreakerRegistry {
+  private readonly entries = new Map<string, BreakerEntry>();
+
+  constructor(private readonly policy: CircuitBreakerPolicy) {}
+
+  /**
+   * Throws CircuitOpenError while the host is cooling down. Once the cooldown passes a
+   * single trial request is let through; its outcome closes or re-opens the circuit.
+   */
+  acquire(host: string): void {
+    const entry = this.entries.get(host);
+    if (!entry || entry.openedAt === null) {
+      return;
+    }
+    const retryAt = entry.openedAt + this.policy.cooldownMs;
+    if (Date.now() < retryAt || entry.trialInFlight) {
+      throw new CircuitOpenError(host, retryAt, entry.lastStatus, entry.lastError);
+    }
+    entry.trialInFlight = true;
+  }
+
+  recordSuccess(host: string): void {
+    this.entries.delete(host);
+  }
+
+  recordFailure(host: string, status: number | null, message: string): void {
+    const entry = this.entries.get(host) ?? {
+      consecutiveFailures: 0,
+      openedAt: null,
+      trialInFlight: false,
+      lastStatus: null,
+      lastError: null,
+    };
+    entry.consecutiveFailures += 1;
+    entry.lastStatus = status;
+    entry.lastError = message;
+    if (entry.trialInFlight || entry.consecutiveFailures >= this.policy.failureThreshold) {
+      entry.openedAt = Date.now();
+    }
+    entry.trialInFlight = false;
+    this.entries.set(host, entry);
+  }
+
+  status(): CircuitBreakerStatus[] {
+    const now = Date.now();
+    return Array.from(this.entries, ([host, entry]) => {
+      const retryAt = entry.openedAt === null ? null : entry.openedAt + this.policy.cooldownMs;
+      let state: CircuitState = 'closed';
+      if (retryAt !== null) {
+        state = now < retryAt && !entry.trialInFlight ? 'open' : 'half-open';
+      }
+      return {
+        host,
+        state,
+        consecutiveFailures: entry.consecutiveFailures,
+        openedAt: entry.openedAt === null ? null : new Date(entry.openedAt).toISOString(),
+        retryAt: retryAt === null ? null : new Date(retryAt).toISOString(),
+        lastError: entry.lastError,
+      };
+    });
+  }
+}
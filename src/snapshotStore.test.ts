@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import type { TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Logger } from './logger.js';
+import { PlexAccountManager } from './plexManager.js';
+import { SnapshotStore } from './snapshotStore.js';
+
+const logger = new Logger('error');
+const NOW = Date.parse('2026-01-01T12:00:00Z');
+const TTL_MS = 60_000;
+
+function tempSnapshotPath(t: TestContext): string {
+  const dir = mkdtempSync(join(tmpdir(), 'snapshot-'));
+  t.after(() => rmSync(dir, { recursive: true, force: true }));
+  return join(dir, 'snapshot.json');
+}
+
+test('round-trips snapshots and ignores other versions', async (t) => {
+  const path = tempSnapshotPath(t);
+  const store = new SnapshotStore(path, logger);
+  assert.equal(store.load(), null);
+
+  const saved = await store.save({ servers: [{ key: 'servers:primary', fetchedAt: 1, value: [] }], users: [] });
+  assert.deepEqual(store.load(), saved);
+
+  writeFileSync(path, JSON.stringify({ ...saved, version: 1 }));
+  assert.equal(store.load(), null);
+});
+
+test('restores cache entries with only the TTL left since they were fetched', async (t) => {
+  t.mock.timers.enable({ apis: ['Date'], now: NOW });
+  const path = tempSnapshotPath(t);
+  await new SnapshotStore(path, logger).save({
+    servers: [
+      { key: 'servers:primary', fetchedAt: NOW - 40_000, value: [] },
+      { key: 'servers:secondary', fetchedAt: NOW - TTL_MS - 1, value: [] },
+      { key: 'servers:removed', fetchedAt: NOW - 50_000, value: [] },
+    ],
+    users: [],
+  });
+
+  const manager = new PlexAccountManager(
+    [
+      { label: 'primary', token: 'token-1' },
+      { label: 'secondary', token: 'token-2' },
+    ],
+    { cacheTtlMs: TTL_MS, snapshotStore: new SnapshotStore(path, logger) },
+    logger
+  );
+
+  // The expired entry and the entry for an unknown account are dropped.
+  assert.equal(manager.getSnapshotStatus()?.oldestEntryAt, new Date(NOW - 40_000).toISOString());
+  assert.equal(manager.getSnapshotStatus()?.ageSeconds, 40);
+
+  t.mock.timers.tick(20_001);
+  assert.equal(manager.getSnapshotStatus()?.oldestEntryAt, null);
+});
@@ -0,0 +1,90 @@
+import { readFileSync } from 'fs';
+import { mkdir, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { Logger } from './logger.js';
+import type { PlexDiagnostic, PlexServer, PlexUserAccess } from './types.js';
+
+const SNAPSHOT_VERSION = 4;
+
+export interface SnapshotEntry<T> {
+  key: string;
+  fetchedAt: number;
+  value: T;
+  // Present when the entry was cached from a partial fetch.
+  errors?: PlexDiagnostic[];
+  incompleteServers?: string[];
+}
+
+export interface PlexSnapshot {
+  version: number;
+  savedAt: number;
+  servers: Array<SnapshotEntry<PlexServer[]>>;
+  users: Array<SnapshotEntry<PlexUserAccess[]>>;
+}
+
+export type SnapshotContents = Pick<PlexSnapshot, 'servers' | 'users'>;
+
+export class SnapshotStore {
+  private readonly logger: Logger;
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath: string, logger: Logger) {
+    this.logger = logger.child('snapshot');
+  }
+
+  getPath(): string {
+    return this.filePath;
+  }
+
+  load(): PlexSnapshot | null {
+    let raw: string;
+    try {
+      raw = readFileSync(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger.warn('Unable to read snapshot file', {
+          path: this.filePath,
+          error_message: error instanceof Error ? error.message : String(error),
+        });
+      }
+      return null;
+    }
+
+    try {
+      const parsed = JSON.parse(raw) as PlexSnapshot;
+      if (parsed?.version !== SNAPSHOT_VERSION || !Array.isArray(parsed.servers) || !Array.isArray(parsed.users)) {
+        this.logger.warn('Ignoring snapshot with unsupported format', { path: this.filePath });
+        return null;
+      }
+      return parsed;
+    } catch (error) {
+      this.logger.warn('Snapshot file is not valid JSON', {
+        path: this.filePath,
+        error_message: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  save(contents: SnapshotContents): Promise<PlexSnapshot> {
+    const snapshot: PlexSnapshot = {
+      version: SNAPSHOT_VERSION,
+      savedAt: Date.now(),
+      ...contents,
+    };
+    const write = this.pending.then(async () => {
+      await mkdir(dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      await writeFile(tempPath, JSON.stringify(snapshot), 'utf8');
+      await rename(tempPath, this.filePath);
+      this.logger.debug('Snapshot written', {
+        path: this.filePath,
+        servers: contents.servers.length,
+        users: contents.users.length,
+      });
+      return snapshot;
+    });
+    this.pending = write.catch(() => undefined);
+    return write;
+  }
+}
@@ -0,0 +1,133 @@
+import type { PlexAccountInfo, PlexDiagnostic, PlexSubscription } from './types.js';
+
+export type TokenHealthStatus = 'unknown' | 'valid' | 'unauthorized' | 'unreachable';
+
+// unknown: validation failed without a request error, e.g. a response with no account.
+export type TokenFailureKind = 'unauthorized' | 'network' | 'timeout' | 'server_error' | 'unknown';
+
+export interface TokenFailure {
+  kind: TokenFailureKind;
+  at: string;
+  status: number | null;
+  message: string;
+}
+
+export interface TokenHealth {
+  label: string;
+  status: TokenHealthStatus;
+  checkedAt: string | null;
+  lastValidatedAt: string | null;
+  lastFailure: TokenFailure | null;
+  username: string | null;
+  email: string | null;
+  plexPass: boolean | null;
+  subscription: PlexSubscription | null;
+}
+
+export type TokenCheckOutcome =
+  | { kind: 'valid'; info: PlexAccountInfo }
+  | { kind: 'failed'; diagnostic: PlexDiagnostic | null }
+  | { kind: 'timeout' };
+
+export function classifyFailure(diagnostic: PlexDiagnostic | null): TokenFailureKind {
+  if (!diagnostic) {
+    return 'unknown';
+  }
+  const status = diagnostic.status;
+  if (status === 401 || status === 403) {
+    return 'unauthorized';
+  }
+  if (status === null) {
+    return 'network';
+  }
+  return 'server_error';
+}
+
+/**
+ * Keeps the latest validation state per account label. Identity and subscription details
+ * survive failed checks so a token that later stops working still shows who it belonged to.
+ */
+export class TokenHealthTracker {
+  private readonly records = new Map<string, TokenHealth>();
+
+  get(label: string): TokenHealth {
+    return this.records.get(label) ?? emptyHealth(label);
+  }
+
+  has(label: string): boolean {
+    return this.records.get(label)?.checkedAt != null;
+  }
+
+  seed(label: string, lastValidatedAt: number | null, username: string | null, email: string | null): void {
+    this.records.set(label, {
+      ...emptyHealth(label),
+      lastValidatedAt: lastValidatedAt === null ? null : new Date(lastValidatedAt).toISOString(),
+      username,
+      email,
+    });
+  }
+
+  record(label: string, outcome: TokenCheckOutcome, now = Date.now()): TokenHealth {
+    const at = new Date(now).toISOString();
+    const previous = this.get(label);
+    let next: TokenHealth;
+
+    if (outcome.kind === 'valid') {
+      next = {
+        ...previous,
+        status: 'valid',
+        checkedAt: at,
+        lastValidatedAt: at,
+        username: outcome.info.username ?? null,
+        email: outcome.info.email ?? null,
+        plexPass: outcome.info.plexPass,
+        subscription: outcome.info.subscription,
+      };
+    } else {
+      const kind = outcome.kind === 'timeout' ? 'timeout' : classifyFailure(outcome.diagnostic);
+      next = {
+        ...previous,
+        status: kind === 'unauthorized' ? 'unauthorized' : 'unreachable',
+        checkedAt: at,
+        lastFailure: {
+          kind,
+          at,
+          status: outcome.kind === 'failed' ? (outcome.diagnostic?.status ?? null) : null,
+          message:
+            outcome.kind === 'timeout'
+              ? 'Validation did not finish before the discovery deadline'
+              : (outcome.diagnostic?.message ?? 'Token validation returned no account'),
+        },
+      };
+    }
+
+    this.records.set(label, next);
+    return next;
+  }
+
+  rename(label: string, newLabel: string): void {
+    const record = this.records.get(label);
+    this.records.delete(label);
+    if (record) {
+      this.records.set(newLabel, { ...record, label: newLabel });
+    }
+  }
+
+  delete(label: string): void {
+    this.records.delete(label);
+  }
+}
+
+function emptyHealth(label: string): TokenHealth {
+  return {
+    label,
+    status: 'unknown',
+    checkedAt: null,
+    lastValidatedAt: null,
+    lastFailure: null,
+    username: null,
+    email: null,
+    plexPass: null,
+    subscription: null,
+  };
+}
@@ -0,0 +1,61 @@
+import { test } from 'node:test';
+import type { TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync, statSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Logger } from './logger.js';
+import { TokenStore } from './tokenStore.js';
+import type { StoredAccount } from './tokenStore.js';
+
+const logger = new Logger('error');
+
+const ACCOUNT: StoredAccount = {
+  label: 'primary',
+  token: 'plex-token-1',
+  clientIdentifier: 'client-1',
+  addedAt: 1,
+  lastValidatedAt: null,
+  username: 'homeowner',
+  email: null,
+};
+
+function tempStorePath(t: TestContext): string {
+  const dir = mkdtempSync(join(tmpdir(), 'token-store-'));
+  t.after(() => rmSync(dir, { recursive: true, force: true }));
+  return join(dir, 'nested', 'tokens.json');
+}
+
+test('treats a missing file as an empty store', (t) => {
+  assert.deepEqual(new TokenStore(tempStorePath(t), 'secret', logger).load(), []);
+});
+
+test('round-trips accounts without writing tokens in the clear', async (t) => {
+  const path = tempStorePath(t);
+  await new TokenStore(path, 'secret', logger).save([ACCOUNT]);
+
+  assert.doesNotMatch(readFileSync(path, 'utf8'), /plex-token-1/);
+  assert.equal(statSync(path).mode & 0o777, 0o600);
+  assert.deepEqual(new TokenStore(path, 'secret', logger).load(), [ACCOUNT]);
+});
+
+test('keeps the salt across saves and uses a fresh IV', async (t) => {
+  const path = tempStorePath(t);
+  const store = new TokenStore(path, 'secret', logger);
+  await store.save([ACCOUNT]);
+  const first = JSON.parse(readFileSync(path, 'utf8'));
+  await store.save([]);
+  const second = JSON.parse(readFileSync(path, 'utf8'));
+
+  assert.equal(second.salt, first.salt);
+  assert.notEqual(second.iv, first.iv);
+  assert.deepEqual(store.load(), []);
+});
+
+test('refuses to load with the wrong secret', async (t) => {
+  const path = tempStorePath(t);
+  await new TokenStore(path, 'secret', logger).save([ACCOUNT]);
+
+  assert.throws(() => new TokenStore(path, 'other', logger).load(), /Unable to decrypt token store .*check the store secret/);
+  assert.throws(() => new TokenStore(path, '', logger), /must not be empty/);
+});
@@ -0,0 +1,128 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { readFileSync } from 'fs';
+import { mkdir, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { Logger } from './logger.js';
+
+const STORE_VERSION = 1;
+const CIPHER = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+
+export interface StoredAccount {
+  label: string;
+  token: string;
+  clientIdentifier: string;
+  addedAt: number;
+  lastValidatedAt: number | null;
+  username: string | null;
+  email: string | null;
+}
+
+interface TokenStoreFile {
+  version: number;
+  kdf: 'scrypt';
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * Keeps account credentials in a file encrypted with AES-256-GCM. The key is derived from a
+ * secret (passphrase or random key) with scrypt; the salt stays fixed for the life of the
+ * file and every save uses a fresh IV.
+ */
+export class TokenStore {
+  private readonly logger: Logger;
+  private salt: Buffer | null = null;
+  private key: Buffer | null = null;
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly filePath: string,
+    private readonly secret: string,
+    logger: Logger
+  ) {
+    if (!secret) {
+      throw new Error('Token store secret must not be empty');
+    }
+    this.logger = logger.child('token-store');
+  }
+
+  getPath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Reads and decrypts the store. A missing file is an empty store; a file that cannot be
+   * decrypted throws so a wrong secret never leads to the file being overwritten.
+   */
+  load(): StoredAccount[] {
+    let raw: string;
+    try {
+      raw = readFileSync(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const parsed = JSON.parse(raw) as TokenStoreFile;
+    if (parsed?.version !== STORE_VERSION || parsed.kdf !== 'scrypt') {
+      throw new Error(`Token store ${this.filePath} has an unsupported format`);
+    }
+
+    const salt = Buffer.from(parsed.salt, 'base64');
+    const key = this.deriveKey(salt);
+    let plaintext: string;
+    try {
+      const decipher = createDecipheriv(CIPHER, key, Buffer.from(parsed.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(parsed.tag, 'base64'));
+      plaintext = Buffer.concat([decipher.update(Buffer.from(parsed.data, 'base64')), decipher.final()]).toString('utf8');
+    } catch {
+      throw new Error(`Unable to decrypt token store ${this.filePath}; check the store secret`);
+    }
+
+    this.salt = salt;
+    this.key = key;
+    const accounts = (JSON.parse(plaintext) as { accounts: StoredAccount[] }).accounts;
+    this.logger.info('Loaded token store', { path: this.filePath, accounts: accounts.length });
+    return accounts;
+  }
+
+  save(accounts: StoredAccount[]): Promise<void> {
+    if (!this.salt || !this.key) {
+      this.salt = randomBytes(SALT_LENGTH);
+      this.key = this.deriveKey(this.salt);
+    }
+
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv(CIPHER, this.key, iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify({ accounts }), 'utf8'), cipher.final()]);
+    const payload: TokenStoreFile = {
+      version: STORE_VERSION,
+      kdf: 'scrypt',
+      salt: this.salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+
+    const write = this.pending.then(async () => {
+      await mkdir(dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      await writeFile(tempPath, JSON.stringify(payload), { encoding: 'utf8', mode: 0o600 });
+      await rename(tempPath, this.filePath);
+      this.logger.debug('Token store written', { path: this.filePath, accounts: accounts.length });
+    });
+    this.pending = write.catch(() => undefined);
+    return write;
+  }
+
+  private deriveKey(salt: Buffer): Buffer {
+    return scryptSync(this.secret, salt, KEY_LENGTH);
+  }
+}
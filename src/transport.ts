@@ -0,0 +1,204 @@
+import axios from 'axios';
+import { readFileSync } from 'fs';
+import { mkdir, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { Logger } from './logger.js';
+
+export type PlexHttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+export interface PlexHttpRequest {
+  method: PlexHttpMethod;
+  url: string;
+  headers: Record<string, string>;
+  data?: unknown;
+  timeoutMs: number;
+  responseType?: 'json' | 'text';
+}
+
+export interface PlexHttpResponse {
+  status: number;
+  data: unknown;
+  headers: Record<string, string>;
+}
+
+/**
+ * Sends one HTTP request. Transports resolve for every HTTP status and only reject on
+ * network-level failures (timeouts, refused connections).
+ */
+export type PlexTransport = (request: PlexHttpRequest) => Promise<PlexHttpResponse>;
+
+export class PlexRequestError extends Error {
+  constructor(
+    readonly method: PlexHttpMethod,
+    readonly url: string,
+    readonly status: number
+  ) {
+    super(`Request failed with status code ${status}`);
+    this.name = 'PlexRequestError';
+  }
+}
+
+export const axiosTransport: PlexTransport = async (request) => {
+  const response = await axios.request({
+    url: request.url,
+    method: request.method,
+    headers: request.headers,
+    data: request.data,
+    timeout: request.timeoutMs,
+    responseType: request.responseType ?? 'json',
+    validateStatus: () => true,
+  });
+
+  const headers: Record<string, string> = {};
+  for (const [key, value] of Object.entries(response.headers ?? {})) {
+    if (typeof value === 'string') {
+      headers[key.toLowerCase()] = value;
+    }
+  }
+  return { status: response.status, data: response.data, headers };
+};
+
+export interface RecordedExchange {
+  method: PlexHttpMethod;
+  url: string;
+  status: number;
+  data: unknown;
+  headers: Record<string, string>;
+}
+
+interface FixtureFile {
+  version: number;
+  exchanges: RecordedExchange[];
+}
+
+const FIXTURE_VERSION = 1;
+const SECRET_ATTRIBUTE_PATTERN = /\b(accessToken|authToken|authenticationToken)="[^"]*"/g;
+const SECRET_JSON_KEYS = new Set(['accesstoken', 'authtoken', 'authenticationtoken', 'token']);
+const SECRET_QUERY_PARAMS = new Set(['pin', 'token', 'x-plex-token']);
+
+function redactSecrets(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value.replace(SECRET_ATTRIBUTE_PATTERN, '$1="[REDACTED]"');
+  }
+  if (Array.isArray(value)) {
+    return value.map(redactSecrets);
+  }
+  if (value && typeof value === 'object') {
+    const redacted: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      redacted[key] = SECRET_JSON_KEYS.has(key.toLowerCase()) && typeof entry === 'string' ? '[REDACTED]' : redactSecrets(entry);
+    }
+    return redacted;
+  }
+  return value;
+}
+
+/** Replaces secret query parameters, such as a Home PIN, so recorded URLs never hold them. */
+function redactUrl(url: string): string {
+  const parsed = new URL(url);
+  const secrets = Array.from(parsed.searchParams.keys()).filter((key) => SECRET_QUERY_PARAMS.has(key.toLowerCase()));
+  if (secrets.length === 0) {
+    return url;
+  }
+  for (const key of secrets) {
+    parsed.searchParams.set(key, '[REDACTED]');
+  }
+  return parsed.toString();
+}
+
+function pathKey(url: string): string {
+  const parsed = new URL(url);
+  return `${parsed.pathname}${parsed.search}`;
+}
+
+function loadFixtures(filePath: string): RecordedExchange[] {
+  try {
+    const parsed = JSON.parse(readFileSync(filePath, 'utf8')) as FixtureFile;
+    return parsed?.version === FIXTURE_VERSION && Array.isArray(parsed.exchanges) ? parsed.exchanges : [];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Wraps a transport and appends every exchange to a fixture file, with tokens redacted
+ * from response bodies and secret query parameters from URLs.
+ */
+export function createRecordingTransport(inner: PlexTransport, filePath: string, logger: Logger): PlexTransport {
+  const recordLogger = logger.child('record');
+  const exchanges = loadFixtures(filePath);
+  let pending: Promise<unknown> = Promise.resolve();
+
+  const persist = () => {
+    const payload = JSON.stringify({ version: FIXTURE_VERSION, exchanges } satisfies FixtureFile, null, 2);
+    pending = pending
+      .then(async () => {
+        await mkdir(dirname(filePath), { recursive: true });
+        await writeFile(`${filePath}.tmp`, payload, 'utf8');
+        await rename(`${filePath}.tmp`, filePath);
+      })
+      .catch((error) => {
+        recordLogger.warn('Failed to write fixture file', {
+          path: filePath,
+          error_message: error instanceof Error ? error.message : String(error),
+        });
+      });
+  };
+
+  return async (request) => {
+    const response = await inner(request);
+    const url = redactUrl(request.url);
+    exchanges.push({
+      method: request.method,
+      url,
+      status: response.status,
+      data: redactSecrets(response.data),
+      headers: response.headers,
+    });
+    recordLogger.debug('Recorded exchange', { method: request.method, url, status: response.status });
+    persist();
+    return response;
+  };
+}
+
+/**
+ * Serves responses from a fixture file. Exchanges match on method and full URL first,
+ * then on method and path so recordings survive a changed base URL or server address.
+ * Repeated requests step through matching exchanges in order and then stick on the last.
+ */
+export function createReplayTransport(filePath: string, logger: Logger): PlexTransport {
+  const replayLogger = logger.child('replay');
+  const exchanges = loadFixtures(filePath);
+  const cursors = new Map<string, number>();
+
+  const select = (key: string, candidates: RecordedExchange[]): RecordedExchange | undefined => {
+    if (candidates.length === 0) {
+      return undefined;
+    }
+    const cursor = cursors.get(key) ?? 0;
+    cursors.set(key, cursor + 1);
+    return candidates[Math.min(cursor, candidates.length - 1)];
+  };
+
+  return async (request) => {
+    // Recordings hold redacted URLs, so match against the redacted form.
+    const url = redactUrl(request.url);
+    const exactKey = `${request.method} ${url}`;
+    const exact = exchanges.filter((exchange) => `${exchange.method} ${exchange.url}` === exactKey);
+    const match =
+      select(exactKey, exact) ??
+      select(
+        `${request.method} ${pathKey(url)}`,
+        exchanges.filter((exchange) => exchange.method === request.method && pathKey(exchange.url) === pathKey(url))
+      );
+
+    if (!match) {
+      replayLogger.warn('No recorded exchange for request', { method: request.method, url });
+      return { status: 404, data: '', headers: {} };
+    }
+    return { status: match.status, data: match.data, headers: match.headers };
+  };
+}
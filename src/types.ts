@@ -1,8 +1,17 @@
+export type PlexConnectionType = 'local' | 'remote' | 'relay';
+
 export interface PlexServerConnection {
   protocol: string;
   address: string;
   port: number;
   uri: string;
+  local: boolean;
+  relay: boolean;
+}
+
+export interface ConnectionPolicy {
+  preference: PlexConnectionType[];
+  httpsOnly: boolean;
 }
 
 export interface PlexResource {
@@ -30,6 +39,34 @@ export interface PlexServer {
   platform: string;
   owned: boolean;
   accountLabel: string;
+  connectionType: PlexConnectionType;
+  latencyMs: number;
+}
+
+export interface PlexLibrarySection {
+  id: number | null;
+  key: string;
+  title: string;
+  type: string;
+  shared: boolean;
+}
+
+export interface PlexShareDetails {
+  sharedServerId: number | null;
+  allLibraries: boolean | null;
+  allowSync: boolean | null;
+  allowCameraUpload: boolean | null;
+  allowChannels: boolean | null;
+  allowTuners: boolean | null;
+  allowSubtitleAdmin: boolean | null;
+  filterAll: string | null;
+  filterMovies: string | null;
+  filterMusic: string | null;
+  filterPhotos: string | null;
+  filterTelevision: string | null;
+  invitedAt: string | null;
+  acceptedAt: string | null;
+  sections: PlexLibrarySection[];
 }
 
 export interface PlexUserAccess {
@@ -45,6 +82,7 @@ export interface PlexUserAccess {
   serverIdentifier: string;
   serverName: string;
   accountLabel: string;
+  share: PlexShareDetails | null;
 }
 
 export interface ConfigAccount {
@@ -52,3 +90,95 @@ export interface ConfigAccount {
   token: string;
   clientIdentifier?: string;
 }
+
+export interface PlexServerMembership {
+  serverIdentifier: string;
+  serverName: string;
+  accountLabel: string;
+  restricted: boolean | null;
+  home: boolean | null;
+  guest: boolean | null;
+  canInvite: boolean | null;
+}
+
+export interface PlexIdentityConflict {
+  field: 'username' | 'title';
+  values: string[];
+}
+
+/**
+ * A member of an account's Plex Home. Home rows reuse the user row shape with a pseudo
+ * server (`home:<accountLabel>`) so lookups can list members that have no server share.
+ */
+export interface PlexHomeUser extends PlexUserAccess {
+  admin: boolean | null;
+  protected: boolean | null;
+}
+
+export interface PlexUserProfile {
+  key: string;
+  ids: number[];
+  uuids: string[];
+  emails: string[];
+  usernames: string[];
+  titles: string[];
+  accountLabels: string[];
+  servers: PlexServerMembership[];
+  // Accounts whose Plex Home the person belongs to; home rows are not server memberships.
+  homes: string[];
+  conflicts: PlexIdentityConflict[];
+}
+
+export interface PlexViewing {
+  accountId: number;
+  viewedAt: string;
+  title: string | null;
+  type: string | null;
+}
+
+export type PlexStreamDecision = 'direct_play' | 'direct_stream' | 'transcode';
+
+export interface PlexPlayer {
+  title: string | null;
+  product: string | null;
+  platform: string | null;
+  device: string | null;
+  address: string | null;
+  local: boolean | null;
+  state: string | null;
+}
+
+export interface PlexSession {
+  sessionId: string | null;
+  accountId: number | null;
+  userTitle: string | null;
+  title: string | null;
+  type: string | null;
+  player: PlexPlayer;
+  decision: PlexStreamDecision;
+  videoDecision: string | null;
+  audioDecision: string | null;
+  bandwidthKbps: number | null;
+  location: string | null;
+}
+
+export interface PlexSubscription {
+  active: boolean;
+  status: string | null;
+  plan: string | null;
+}
+
+export interface PlexAccountInfo {
+  username: string;
+  email: string;
+  plexPass: boolean;
+  subscription: PlexSubscription | null;
+}
+
+export interface PlexDiagnostic {
+  accountLabel: string | null;
+  server: string | null;
+  endpoint: string;
+  status: number | null;
+  message: string;
+}
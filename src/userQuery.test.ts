@@ -0,0 +1,115 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { matchUsers, NORMALIZED_EMAIL_SCORE, parseUserQuery } from './userQuery.js';
+import type { PlexUserAccess } from './types.js';
+
+function user(overrides: Partial<PlexUserAccess>): PlexUserAccess {
+  return {
+    id: null,
+    uuid: null,
+    username: null,
+    title: null,
+    email: null,
+    restricted: null,
+    home: null,
+    guest: null,
+    canInvite: null,
+    serverIdentifier: 'server-a',
+    serverName: 'Server A',
+    accountLabel: 'primary',
+    share: null,
+    ...overrides,
+  };
+}
+
+test('parses field clauses, quoted values, regexes and bare words', () => {
+  const parsed = parseUserQuery('email:alice@x.com title:"Bob \\"B\\" Baker" username:/^bob/i carol');
+
+  assert.deepEqual(
+    parsed.clauses.map(({ field, value }) => ({ field, value })),
+    [
+      { field: 'email', value: 'alice@x.com' },
+      { field: 'title', value: 'Bob "B" Baker' },
+      { field: 'username', value: '^bob' },
+      { field: 'any', value: 'carol' },
+    ]
+  );
+  assert.equal(parsed.clauses[2]?.pattern?.flags, 'i');
+  assert.equal(parsed.clauses[0]?.pattern, null);
+});
+
+test('turns server, account and flag clauses into filters', () => {
+  const parsed = parseUserQuery('server:"Basement" account:secondary restricted:yes can_invite:0 owned:true');
+
+  assert.deepEqual(parsed.clauses, []);
+  assert.deepEqual(parsed.filters, {
+    server: 'Basement',
+    accountLabel: 'secondary',
+    restricted: true,
+    canInvite: false,
+    owned: true,
+  });
+});
+
+test('keeps unknown prefixes as part of a bare term', () => {
+  const [clause] = parseUserQuery('mailto:alice@x.com').clauses;
+
+  assert.equal(clause?.field, 'any');
+  assert.equal(clause?.value, 'mailto:alice@x.com');
+});
+
+test('rejects bad filter values and regexes', () => {
+  assert.throws(() => parseUserQuery('restricted:maybe'), /Expected true or false for restricted:/);
+  assert.throws(() => parseUserQuery('server:/base/'), /server: does not accept a regular expression/);
+  assert.throws(() => parseUserQuery('username:/(/'), /Invalid regular expression/);
+});
+
+test('ANDs clauses and reports which field each clause hit', () => {
+  const alice = user({ username: 'alice', email: 'alice@example.com' });
+  const alex = user({ username: 'alex', email: 'alex@example.com' });
+  const { clauses } = parseUserQuery('email:/example/ username:alice');
+
+  const matches = matchUsers(clauses, 'exact', [alice, alex]);
+
+  assert.deepEqual(
+    matches.map((match) => match.user),
+    [alice]
+  );
+  assert.deepEqual(
+    matches[0]?.matchDetails.map(({ key, mode }) => ({ key, mode })),
+    [
+      { key: 'email', mode: 'regex' },
+      { key: 'username', mode: 'exact' },
+    ]
+  );
+});
+
+test('matches every user on an email domain', () => {
+  const users = [
+    user({ email: 'a@ourcompany.com' }),
+    user({ email: 'b@OurCompany.com' }),
+    user({ email: 'c@elsewhere.com' }),
+  ];
+
+  const matches = matchUsers(parseUserQuery('domain:ourcompany.com').clauses, 'fuzzy', users);
+
+  assert.deepEqual(
+    matches.map((match) => match.user.email),
+    ['a@ourcompany.com', 'b@OurCompany.com']
+  );
+});
+
+test('ranks normalized email hits below literal ones', () => {
+  const literal = user({ email: 'first.last@gmail.com' });
+  const tagged = user({ email: 'firstlast+plex@googlemail.com' });
+
+  const matches = matchUsers(parseUserQuery('first.last@gmail.com').clauses, 'exact', [tagged, literal]);
+
+  assert.deepEqual(
+    matches.map((match) => [match.user, match.score, match.matchDetails[0]?.mode]),
+    [
+      [literal, 0, 'exact'],
+      [tagged, NORMALIZED_EMAIL_SCORE, 'normalized'],
+    ]
+  );
+});
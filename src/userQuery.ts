@@ -0,0 +1,308 @@
+import Fuse from 'fuse.js';
+import { emailDomain, normalizeDomain, normalizeEmail } from './email.js';
+import type { PlexUserAccess } from './types.js';
+
+export type MatchMode = 'fuzzy' | 'exact' | 'prefix' | 'regex' | 'domain';
+
+export type QueryField = 'any' | 'email' | 'username' | 'title' | 'id' | 'uuid' | 'domain';
+
+export interface QueryClause {
+  raw: string;
+  field: QueryField;
+  value: string;
+  pattern: RegExp | null;
+}
+
+export interface QueryFilters {
+  server?: string;
+  accountLabel?: string;
+  restricted?: boolean;
+  home?: boolean;
+  guest?: boolean;
+  canInvite?: boolean;
+  owned?: boolean;
+}
+
+export interface ParsedQuery {
+  clauses: QueryClause[];
+  filters: QueryFilters;
+}
+
+export interface ClauseMatch {
+  clause: string;
+  // 'normalized' marks an email that only matched after normalization (see normalizedEmailMatch).
+  mode: MatchMode | 'normalized';
+  key: string;
+  value: string;
+  indices: ReadonlyArray<readonly [number, number]>;
+}
+
+export interface QueryMatch {
+  user: PlexUserAccess;
+  score: number;
+  matchDetails: ClauseMatch[];
+}
+
+const TEXT_FIELDS: Record<Exclude<QueryField, 'any'>, keyof PlexUserAccess> = {
+  email: 'email',
+  username: 'username',
+  title: 'title',
+  id: 'id',
+  uuid: 'uuid',
+  domain: 'email',
+};
+
+const ANY_FIELD_KEYS: Array<keyof PlexUserAccess> = ['email', 'username', 'title'];
+// Score for an email that only matches in normalized form: ahead of fuzzy hits, behind literal ones.
+export const NORMALIZED_EMAIL_SCORE = 0.1;
+
+const ANY_FIELD_WEIGHTS: Partial<Record<keyof PlexUserAccess, number>> = { email: 0.5, username: 0.3, title: 0.2 };
+
+const FILTER_FIELDS: Record<string, keyof QueryFilters> = {
+  server: 'server',
+  account: 'accountLabel',
+  account_label: 'accountLabel',
+  restricted: 'restricted',
+  home: 'home',
+  guest: 'guest',
+  can_invite: 'canInvite',
+  caninvite: 'canInvite',
+  owned: 'owned',
+};
+
+const TOKEN_PATTERN = /(?:([A-Za-z_]+):)?(?:"((?:[^"\\]|\\.)*)"|\/((?:[^/\\]|\\.)+)\/([a-z]*)|(\S+))/g;
+
+function parseBoolean(field: string, value: string): boolean {
+  const normalized = value.toLowerCase();
+  if (['true', 'yes', '1'].includes(normalized)) {
+    return true;
+  }
+  if (['false', 'no', '0'].includes(normalized)) {
+    return false;
+  }
+  throw new Error(`Expected true or false for ${field}:, got "${value}"`);
+}
+
+function compileRegex(raw: string, source: string, flags: string): RegExp {
+  // Matching is case-insensitive like every other mode; g and y would make exec stateful.
+  const safeFlags = `${flags.replace(/[giy]/g, '')}i`;
+  try {
+    return new RegExp(source, safeFlags);
+  } catch (error) {
+    throw new Error(`Invalid regular expression in ${raw}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Parses queries such as `email:alice@x.com server:"Basement" username:/^bob/ carol`.
+ * Text clauses (email, username, title, id, uuid, domain, or bare words) are ANDed together;
+ * server, account, and flag clauses become structured filters. Values in slashes are
+ * regular expressions regardless of the match mode.
+ */
+export function parseUserQuery(query: string): ParsedQuery {
+  const parsed: ParsedQuery = { clauses: [], filters: {} };
+
+  for (const token of query.matchAll(TOKEN_PATTERN)) {
+    const [raw, prefix, quoted, regexSource, regexFlags, bare] = token;
+    const field = prefix?.toLowerCase();
+    const value = quoted !== undefined ? quoted.replace(/\\(.)/g, '$1') : (bare ?? '');
+
+    if (field && field in FILTER_FIELDS) {
+      const target = FILTER_FIELDS[field] as keyof QueryFilters;
+      if (regexSource !== undefined) {
+        throw new Error(`${field}: does not accept a regular expression`);
+      }
+      if (target === 'server' || target === 'accountLabel') {
+        parsed.filters[target] = value;
+      } else {
+        parsed.filters[target] = parseBoolean(field, value);
+      }
+      continue;
+    }
+
+    const known = field !== undefined && field in TEXT_FIELDS;
+    let clauseValue = value;
+    if (regexSource !== undefined) {
+      clauseValue = regexSource;
+    } else if (field && !known) {
+      // Unknown prefixes such as "mailto:" stay part of a bare search term.
+      clauseValue = raw;
+    }
+
+    parsed.clauses.push({
+      raw,
+      field: known ? (field as QueryField) : 'any',
+      value: clauseValue,
+      pattern: regexSource !== undefined ? compileRegex(raw, regexSource, regexFlags ?? '') : null,
+    });
+  }
+
+  return parsed;
+}
+
+function fieldText(user: PlexUserAccess, key: keyof PlexUserAccess): string | null {
+  const value = user[key];
+  if (value === null || value === undefined || typeof value === 'object') {
+    return null;
+  }
+  return String(value);
+}
+
+function literalMatch(
+  clause: QueryClause,
+  mode: Exclude<MatchMode, 'fuzzy' | 'domain'>,
+  pattern: RegExp | null,
+  key: keyof PlexUserAccess,
+  text: string
+): ClauseMatch | null {
+  let indices: Array<[number, number]> | null = null;
+  if (pattern) {
+    const found = pattern.exec(text);
+    if (found) {
+      indices = [[found.index, found.index + Math.max(found[0].length, 1) - 1]];
+    }
+  } else {
+    const haystack = text.toLowerCase();
+    const needle = clause.value.toLowerCase();
+    if (mode === 'exact' ? haystack === needle : haystack.startsWith(needle)) {
+      indices = [[0, Math.max(needle.length, 1) - 1]];
+    }
+  }
+  return indices ? { clause: clause.raw, mode: pattern ? 'regex' : mode, key, value: text, indices } : null;
+}
+
+function domainMatch(clause: QueryClause, user: PlexUserAccess): ClauseMatch | null {
+  const domain = user.email ? emailDomain(user.email) : null;
+  if (!user.email || !domain || domain !== normalizeDomain(clause.value)) {
+    return null;
+  }
+  const start = user.email.lastIndexOf('@') + 1;
+  return { clause: clause.raw, mode: 'domain', key: 'email', value: user.email, indices: [[start, user.email.length - 1]] };
+}
+
+/**
+ * Finds plus-tagged and dotted Gmail variants of the clause's address. Plex treats them as
+ * separate accounts (identity.ts never merges them), so they rank below a literal match.
+ */
+function normalizedEmailMatch(clause: QueryClause, user: PlexUserAccess): ClauseMatch | null {
+  if (clause.pattern || !clause.value.includes('@') || !user.email) {
+    return null;
+  }
+  if (normalizeEmail(user.email) !== normalizeEmail(clause.value)) {
+    return null;
+  }
+  return { clause: clause.raw, mode: 'normalized', key: 'email', value: user.email, indices: [[0, user.email.length - 1]] };
+}
+
+function clauseKeys(clause: QueryClause): Array<keyof PlexUserAccess> {
+  return clause.field === 'any' ? ANY_FIELD_KEYS : [TEXT_FIELDS[clause.field]];
+}
+
+/**
+ * Scores one clause against every candidate. Returns a map from user to score (0 is a
+ * perfect match) and the details explaining the hit.
+ */
+function matchClause(
+  clause: QueryClause,
+  mode: MatchMode,
+  users: PlexUserAccess[]
+): Map<PlexUserAccess, { score: number; details: ClauseMatch[] }> {
+  const hits = new Map<PlexUserAccess, { score: number; details: ClauseMatch[] }>();
+  const keys = clauseKeys(clause);
+
+  if ((mode === 'domain' || clause.field === 'domain') && !clause.pattern) {
+    for (const user of users) {
+      const match = domainMatch(clause, user);
+      if (match) {
+        hits.set(user, { score: 0, details: [match] });
+      }
+    }
+    return hits;
+  }
+
+  const emailClause = clause.field === 'any' || clause.field === 'email';
+  const addNormalizedHits = () => {
+    if (!emailClause) {
+      return;
+    }
+    for (const user of users) {
+      const match = normalizedEmailMatch(clause, user);
+      const existing = hits.get(user);
+      if (match && (!existing || existing.score > NORMALIZED_EMAIL_SCORE)) {
+        hits.set(user, { score: NORMALIZED_EMAIL_SCORE, details: [match] });
+      }
+    }
+  };
+
+  if (mode === 'fuzzy' && !clause.pattern && clause.field !== 'id') {
+    const fuse = new Fuse(users, {
+      includeScore: true,
+      includeMatches: true,
+      threshold: 0.4,
+      ignoreLocation: true,
+      keys: keys.map((key) => ({ name: key, weight: ANY_FIELD_WEIGHTS[key] ?? 1 })),
+    });
+    for (const result of fuse.search(clause.value)) {
+      hits.set(result.item, {
+        score: result.score ?? 1,
+        details: (result.matches ?? []).map((match) => ({
+          clause: clause.raw,
+          mode,
+          key: match.key ?? '',
+          value: match.value ?? '',
+          indices: match.indices,
+        })),
+      });
+    }
+    addNormalizedHits();
+    return hits;
+  }
+
+  // Fuzzy matching on numeric ids is meaningless, so id: clauses fall back to exact.
+  const literalMode: Exclude<MatchMode, 'fuzzy' | 'domain'> = mode === 'fuzzy' || mode === 'domain' ? 'exact' : mode;
+  const pattern = clause.pattern ?? (literalMode === 'regex' ? compileRegex(clause.raw, clause.value, '') : null);
+  for (const user of users) {
+    const details: ClauseMatch[] = [];
+    for (const key of keys) {
+      const text = fieldText(user, key);
+      const match = text === null ? null : literalMatch(clause, literalMode, pattern, key, text);
+      if (match) {
+        details.push(match);
+      }
+    }
+    if (details.length > 0) {
+      hits.set(user, { score: 0, details });
+    }
+  }
+  if (literalMode !== 'regex') {
+    addNormalizedHits();
+  }
+  return hits;
+}
+
+/**
+ * Applies every text clause (ANDed) and returns matches ordered by their mean clause score.
+ */
+export function matchUsers(clauses: QueryClause[], mode: MatchMode, users: PlexUserAccess[]): QueryMatch[] {
+  let candidates = users;
+  const totals = new Map<PlexUserAccess, { score: number; details: ClauseMatch[] }>();
+
+  for (const clause of clauses) {
+    const hits = matchClause(clause, mode, candidates);
+    candidates = candidates.filter((user) => hits.has(user));
+    for (const user of candidates) {
+      const hit = hits.get(user) as { score: number; details: ClauseMatch[] };
+      const total = totals.get(user) ?? { score: 0, details: [] };
+      total.score += hit.score;
+      total.details.push(...hit.details);
+      totals.set(user, total);
+    }
+  }
+
+  return candidates
+    .map((user) => {
+      const total = totals.get(user) ?? { score: 0, details: [] };
+      return { user, score: clauses.length > 0 ? total.score / clauses.length : 0, matchDetails: total.details };
+    })
+    .sort((a, b) => a.score - b.score);
+}